@@ -0,0 +1,60 @@
+/**
+ * SERVICE WORKER
+ *
+ * Caches the app shell so a room opened before loads again with no network.
+ * Room data itself comes from localStorage and the IndexedDB outbox, and
+ * Supabase requests are never cached here.
+ */
+
+const CACHE_NAME = 'noteai-shell-v1';
+const SHELL = ['/', '/index.html'];
+
+// Same-origin assets plus the Tailwind CDN script the page depends on
+const CACHEABLE_ORIGINS = [self.location.origin, 'https://cdn.tailwindcss.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(SHELL)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  if (!CACHEABLE_ORIGINS.includes(new URL(request.url).origin)) return;
+
+  // Pages: network first so deploys show up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put('/index.html', copy));
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Assets: serve from cache, refresh in the background
+  event.respondWith(
+    caches.open(CACHE_NAME).then(async cache => {
+      const cached = await cache.match(request);
+      const network = fetch(request)
+        .then(response => {
+          if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+          return response;
+        })
+        .catch(() => cached);
+      return cached || network;
+    })
+  );
+});
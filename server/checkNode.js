@@ -0,0 +1,7 @@
+// Run before the relay (see `npm run relay`): older Node versions fail on the
+// --experimental-strip-types flag or the node:sqlite import with a cryptic error.
+const [major, minor] = process.versions.node.split(".").map(Number);
+if (major < 22 || (major === 22 && minor < 6)) {
+  console.error(`[relay] Node 22.6 or later is required (node:sqlite and type stripping); this is ${process.version}.`);
+  process.exit(1);
+}
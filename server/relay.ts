@@ -0,0 +1,266 @@
+/**
+ * NOTEAI RELAY SERVER
+ *
+ * Self-hosted backend for `VITE_ROOM_BACKEND=websocket` (see src/services/relayBackend.ts
+ * for the protocol). Stores rooms, chat and history snapshots in SQLite and relays
+ * presence and broadcasts between the clients in a room. It only ever sees what
+ * clients send, so end-to-end encrypted rooms stay ciphertext here too.
+ *
+ * Run with `npm run relay` (Node 22.6+ for node:sqlite and type stripping; the script checks).
+ * RELAY_PORT (8787) and RELAY_DB (relay.db) pick the port and the database file.
+ */
+
+import { WebSocketServer } from "ws";
+import type { WebSocket, RawData } from "ws";
+import { DatabaseSync } from "node:sqlite";
+import type { RoomData, ChatMessage, RoomVersion } from "../src/types";
+import type { PresenceState } from "../src/services/roomBackend";
+
+const PORT = Number(process.env.RELAY_PORT || 8787);
+const DB_PATH = process.env.RELAY_DB || "relay.db";
+
+const MAX_PAGE_SIZE = 200;
+
+// Connections that miss a ping for this long are dropped (and leave their rooms)
+const HEARTBEAT_MS = 30000;
+
+// ==================== STORAGE ====================
+// Each record is kept as the JSON the client sent; only the keys are columns
+
+const db = new DatabaseSync(DB_PATH);
+db.exec(`
+  CREATE TABLE IF NOT EXISTS rooms (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updatedAt INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS room_messages (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    roomId TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    UNIQUE (roomId, id)
+  );
+  CREATE TABLE IF NOT EXISTS room_versions (
+    id TEXT PRIMARY KEY,
+    roomId TEXT NOT NULL,
+    createdAt INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS room_versions_room_idx ON room_versions (roomId, createdAt DESC);
+`);
+
+const sql = {
+  getRoom: db.prepare("SELECT data FROM rooms WHERE id = ?"),
+  putRoom: db.prepare(
+    "INSERT INTO rooms (id, data, updatedAt) VALUES (?, ?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data, updatedAt = excluded.updatedAt"
+  ),
+  // Editing a message keeps its place (seq) in the chat
+  putMessage: db.prepare(
+    "INSERT INTO room_messages (roomId, id, data) VALUES (?, ?, ?) ON CONFLICT (roomId, id) DO UPDATE SET data = excluded.data"
+  ),
+  addMessage: db.prepare("INSERT INTO room_messages (roomId, id, data) VALUES (?, ?, ?) ON CONFLICT (roomId, id) DO NOTHING"),
+  getMessage: db.prepare("SELECT seq, data FROM room_messages WHERE roomId = ? AND id = ?"),
+  pageMessages: db.prepare("SELECT seq, data FROM room_messages WHERE roomId = ? AND seq < ? ORDER BY seq DESC LIMIT ?"),
+  clearMessages: db.prepare("DELETE FROM room_messages WHERE roomId = ?"),
+  deleteMessage: db.prepare("DELETE FROM room_messages WHERE roomId = ? AND id = ?"),
+  putVersion: db.prepare("INSERT OR REPLACE INTO room_versions (id, roomId, createdAt, data) VALUES (?, ?, ?, ?)"),
+  listVersions: db.prepare("SELECT data FROM room_versions WHERE roomId = ? ORDER BY createdAt DESC LIMIT ?"),
+};
+
+const toMessage = (row: unknown): ChatMessage => {
+  const { seq, data } = row as { seq: number; data: string };
+  return { ...JSON.parse(data), seq };
+};
+
+// ==================== FRAMES ====================
+// What clients send; the server's replies are typed in src/services/relayBackend.ts
+
+type ClientFrame =
+  | { type: "request"; id: number; op: string; args?: unknown[] }
+  | { type: "join"; roomId: string; sessionId: string }
+  | { type: "leave"; roomId: string }
+  | { type: "track"; roomId: string; state: PresenceState | null }
+  | { type: "broadcast"; roomId: string; event: string; payload: unknown };
+
+// ==================== ROOMS & PRESENCE ====================
+
+interface Member {
+  sessionId: string;
+  state: PresenceState | null;
+}
+
+const rooms = new Map<string, Map<WebSocket, Member>>();
+
+const send = (socket: WebSocket, frame: Record<string, unknown>) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(frame));
+};
+
+const publish = (roomId: string, frame: Record<string, unknown>, except?: WebSocket) => {
+  rooms.get(roomId)?.forEach((_member, socket) => {
+    if (socket !== except) send(socket, frame);
+  });
+};
+
+const publishPresence = (roomId: string) => {
+  const members = rooms.get(roomId);
+  if (!members) return;
+  const clients = Array.from(members.values())
+    .map(member => member.state)
+    .filter((state): state is PresenceState => state !== null);
+  publish(roomId, { type: "presence", roomId, clients });
+};
+
+const join = (socket: WebSocket, roomId: string, sessionId: string) => {
+  if (!rooms.has(roomId)) rooms.set(roomId, new Map());
+  rooms.get(roomId)!.set(socket, { sessionId, state: null });
+  publish(roomId, { type: "join", roomId, sessionId }, socket);
+  publishPresence(roomId);
+};
+
+const leave = (socket: WebSocket, roomId: string) => {
+  const members = rooms.get(roomId);
+  if (!members?.delete(socket)) return;
+  if (members.size === 0) rooms.delete(roomId);
+  else publishPresence(roomId);
+};
+
+// ==================== OPERATIONS ====================
+// Called by `request` frames; the return value is the response. Writes are pushed
+// to everyone in the room, the writer included (like Supabase's postgres_changes).
+
+type Operation = (...args: unknown[]) => unknown;
+
+const handlers = {
+  fetchRoom: (roomId: string): RoomData | null => {
+    const row = sql.getRoom.get(roomId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  },
+
+  saveRoom: (room: RoomData) => {
+    sql.putRoom.run(room.id, JSON.stringify(room), Date.now());
+    publish(room.id, { type: "room", roomId: room.id, room });
+    return true;
+  },
+
+  fetchMessages: (roomId: string, beforeSeq: number | null, limit: number) => {
+    const size = Math.min(Math.max(Number(limit) || 1, 1), MAX_PAGE_SIZE);
+    const rows = sql.pageMessages.all(roomId, beforeSeq ?? Number.MAX_SAFE_INTEGER, size + 1);
+    return {
+      messages: rows.slice(0, size).reverse().map(toMessage),
+      hasMore: rows.length > size,
+    };
+  },
+
+  saveMessages: (roomId: string, messages: ChatMessage[], keepExisting: boolean) => {
+    const stored: ChatMessage[] = [];
+    db.exec("BEGIN");
+    try {
+      for (const { seq, ...message } of messages) {
+        const result = (keepExisting ? sql.addMessage : sql.putMessage).run(roomId, message.id, JSON.stringify(message));
+        if (result.changes > 0) stored.push(toMessage(sql.getMessage.get(roomId, message.id)));
+      }
+      db.exec("COMMIT");
+    } catch (e) {
+      db.exec("ROLLBACK");
+      throw e;
+    }
+    stored.forEach(message => publish(roomId, { type: "message", roomId, message }));
+    return true;
+  },
+
+  deleteMessages: (roomId: string, ids: string[] | null) => {
+    if (ids) ids.forEach(id => sql.deleteMessage.run(roomId, id));
+    else sql.clearMessages.run(roomId);
+    return true;
+  },
+
+  saveVersion: (version: RoomVersion) => {
+    sql.putVersion.run(version.id, version.roomId, version.createdAt, JSON.stringify(version));
+    return true;
+  },
+
+  fetchVersions: (roomId: string, limit: number): RoomVersion[] =>
+    sql.listVersions
+      .all(roomId, Math.min(Number(limit) || 1, MAX_PAGE_SIZE))
+      .map(row => JSON.parse((row as { data: string }).data)),
+} satisfies Record<string, (...args: never[]) => unknown>;
+
+// A Map rather than the object itself, so an op like "constructor" or "toString"
+// can't reach the prototype
+const operations = new Map(Object.entries(handlers) as [string, Operation][]);
+
+// ==================== CONNECTIONS ====================
+
+const server = new WebSocketServer({ port: PORT });
+const alive = new WeakMap<WebSocket, boolean>();
+
+server.on("connection", (socket) => {
+  const joined = new Set<string>();
+  alive.set(socket, true);
+  socket.on("pong", () => alive.set(socket, true));
+
+  socket.on("message", (raw: RawData) => {
+    let frame: ClientFrame;
+    try {
+      frame = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    if (!frame || typeof frame !== "object") return;
+
+    switch (frame.type) {
+      case "request": {
+        const operation = operations.get(frame.op);
+        try {
+          if (!operation) throw new Error(`Unknown operation: ${frame.op}`);
+          const args = Array.isArray(frame.args) ? frame.args : [];
+          send(socket, { type: "response", id: frame.id, result: operation(...args) });
+        } catch (e) {
+          console.error("[relay]", frame.op, "failed:", e);
+          send(socket, { type: "response", id: frame.id, error: e instanceof Error ? e.message : String(e) });
+        }
+        break;
+      }
+      case "join":
+        joined.add(frame.roomId);
+        join(socket, frame.roomId, frame.sessionId);
+        break;
+      case "leave":
+        joined.delete(frame.roomId);
+        leave(socket, frame.roomId);
+        break;
+      case "track": {
+        const member = rooms.get(frame.roomId)?.get(socket);
+        if (!member) return;
+        member.state = frame.state;
+        publishPresence(frame.roomId);
+        break;
+      }
+      case "broadcast":
+        if (!joined.has(frame.roomId)) return;
+        publish(frame.roomId, { type: "broadcast", roomId: frame.roomId, event: frame.event, payload: frame.payload }, socket);
+        break;
+    }
+  });
+
+  socket.on("close", () => {
+    joined.forEach(roomId => leave(socket, roomId));
+    joined.clear();
+  });
+});
+
+const heartbeat = setInterval(() => {
+  server.clients.forEach(socket => {
+    if (!alive.get(socket)) {
+      socket.terminate();
+      return;
+    }
+    alive.set(socket, false);
+    socket.ping();
+  });
+}, HEARTBEAT_MS);
+
+server.on("close", () => clearInterval(heartbeat));
+
+console.info(`[relay] Listening on ws://localhost:${PORT} (database: ${DB_PATH})`);
@@ -2,16 +2,26 @@ import React, { useState, useEffect } from 'react';
 import HomeView from './components/HomeView';
 import RoomView from './components/RoomView';
 import PolicyView from './components/PolicyView';
+import { initIdentity } from './services/identityService';
+
+// Basic Hash Router implementation
+const readRoute = () => window.location.hash.replace('#/', '');
 
 const App: React.FC = () => {
   const [currentRoute, setCurrentRoute] = useState<string>('');
+  const [isIdentityReady, setIsIdentityReady] = useState(false);
+
+  useEffect(() => {
+    // Rooms join presence with our id, so the sign-in session is restored first. Finishing a
+    // magic link sign-in can put the room key back into the hash (without a hashchange event).
+    initIdentity().finally(() => {
+      setCurrentRoute(readRoute());
+      setIsIdentityReady(true);
+    });
+  }, []);
 
   useEffect(() => {
-    // Basic Hash Router implementation
-    const handleHashChange = () => {
-      const hash = window.location.hash.replace('#/', '');
-      setCurrentRoute(hash);
-    };
+    const handleHashChange = () => setCurrentRoute(readRoute());
 
     // Initial check
     handleHashChange();
@@ -29,18 +39,25 @@ const App: React.FC = () => {
     setCurrentRoute(''); // Force update for smoother feel
   };
 
+  if (!isIdentityReady) return null;
+
   // Policy routes
   if (currentRoute.startsWith('policy/')) {
     const key = currentRoute.replace('policy/', '');
     return <PolicyView policyKey={key} onBack={navigateHome} />;
   }
 
+  // Room routes may name a page and carry options, e.g. #/my-room/retro?view=<read-only token>
+  const [path, query = ''] = currentRoute.split('?');
+  const [roomId, pageId] = path.split('/');
+  const params = new URLSearchParams(query);
+
   return (
     <>
-      {!currentRoute ? (
+      {!roomId ? (
         <HomeView onJoinRoom={navigateToRoom} />
       ) : (
-        <RoomView roomId={currentRoute} navigateHome={navigateHome} />
+        <RoomView roomId={roomId} pageId={pageId || null} viewToken={params.get('view')} encryptionKey={params.get('key')} navigateHome={navigateHome} />
       )}
     </>
   );
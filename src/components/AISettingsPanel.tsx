@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { AISettings } from '../types';
+import { listProviders, getProvider, resolveAISettings, getContextWindow } from '../services/aiService';
+
+interface AISettingsPanelProps {
+  settings?: AISettings;
+  onSave: (settings: AISettings) => void;
+  onClose: () => void;
+}
+
+const AISettingsPanel: React.FC<AISettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AISettings>(() => resolveAISettings(settings));
+  const provider = getProvider(draft.providerId);
+  const providers = listProviders();
+
+  const update = (patch: Partial<AISettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleProviderChange = (providerId: string) => {
+    const next = getProvider(providerId);
+    update({ providerId, model: next?.defaultModel || '', baseUrl: undefined, contextWindow: undefined });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      ...draft,
+      model: draft.model.trim() || provider?.defaultModel || '',
+      baseUrl: draft.baseUrl?.trim() || undefined,
+    });
+  };
+
+  const inputClass = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-sm text-[var(--text-primary)] border border-transparent focus:border-[var(--accent)] focus:outline-none";
+  const labelClass = "block text-[11px] font-bold tracking-wider text-slate-400 dark:text-slate-500 mb-1.5 uppercase";
+
+  return (
+    <div
+      className="fixed inset-0 z-40 bg-black/50 backdrop-blur-sm flex items-center justify-center px-3"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-white dark:bg-[var(--bg-surface)] border border-[var(--border-muted)] rounded-2xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--border-muted)]">
+          <span className="text-base font-semibold text-[var(--text-primary)]">AI settings for this room</span>
+          <button type="button" className="text-sm text-[var(--accent)] font-bold" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className={labelClass}>Provider</label>
+            <select
+              className={inputClass}
+              value={draft.providerId}
+              onChange={(e) => handleProviderChange(e.target.value)}
+            >
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>
+                  {p.label}{p.isConfigured() ? '' : ' (not configured)'}
+                </option>
+              ))}
+            </select>
+            {provider && !provider.isConfigured() && (
+              <p className="text-xs text-amber-500 mt-1">This provider is missing its API key in .env.</p>
+            )}
+          </div>
+
+          {draft.providerId === 'openai-compatible' && (
+            <div>
+              <label className={labelClass}>Endpoint URL</label>
+              <input
+                className={inputClass}
+                placeholder="http://localhost:11434/v1"
+                value={draft.baseUrl || ''}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+              />
+              <p className="text-xs text-[var(--text-secondary)] mt-1">
+                Any OpenAI-compatible server, e.g. Ollama or llama.cpp. Leave empty for the default.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Model</label>
+            <input
+              className={inputClass}
+              list="ai-model-suggestions"
+              placeholder={provider?.defaultModel}
+              value={draft.model}
+              onChange={(e) => update({ model: e.target.value })}
+            />
+            <datalist id="ai-model-suggestions">
+              {provider?.suggestedModels.map(m => <option key={m} value={m} />)}
+            </datalist>
+          </div>
+
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label className={labelClass}>Temperature · {draft.temperature.toFixed(1)}</label>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.1}
+                className="w-full accent-[var(--accent)]"
+                value={draft.temperature}
+                onChange={(e) => update({ temperature: Number(e.target.value) })}
+              />
+            </div>
+            <div className="w-28">
+              <label className={labelClass}>Context</label>
+              <input
+                type="number"
+                min={512}
+                className={inputClass}
+                placeholder={String(getContextWindow({ ...draft, contextWindow: undefined }))}
+                title="Tokens the model takes in (notes, chat and question). Empty uses what the provider knows about the model."
+                value={draft.contextWindow ?? ''}
+                onChange={(e) => update({ contextWindow: Number(e.target.value) || undefined })}
+              />
+            </div>
+            <div className="w-28">
+              <label className={labelClass}>Max tokens</label>
+              <input
+                type="number"
+                min={16}
+                max={32768}
+                className={inputClass}
+                value={draft.maxTokens}
+                onChange={(e) => update({ maxTokens: Math.max(16, Number(e.target.value) || 0) })}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end px-4 py-3 border-t border-[var(--border-muted)]">
+          <button
+            type="submit"
+            className="text-sm font-bold text-white bg-[var(--accent)] px-4 py-2 rounded-lg hover:opacity-90 transition-opacity"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AISettingsPanel;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { RoomAccess } from '../types';
+import { hashSecret, derivePassword, generateViewToken, buildViewLink } from '../services/accessService';
+
+interface AccessPanelProps {
+  roomId: string;
+  access?: RoomAccess;
+  encryptionKey?: string | null; // appended to share links so readers can decrypt
+  isEncrypted?: boolean;
+  onEnableEncryption?: () => Promise<void>;
+  onSave: (access: RoomAccess, passwordKey?: string) => void; // the key of a newly set password keeps the owner unlocked
+  onClose: () => void;
+}
+
+const MODES: { value: RoomAccess['mode']; label: string; description: string }[] = [
+  { value: 'open', label: 'Open', description: 'Anyone with the link can view and edit.' },
+  { value: 'password', label: 'Password', description: 'A password is required to open the room.' },
+  { value: 'view-only', label: 'Public read-only', description: 'Anyone can view; the password is required to edit.' },
+];
+
+const AccessPanel: React.FC<AccessPanelProps> = ({ roomId, access, encryptionKey, isEncrypted = false, onEnableEncryption, onSave, onClose }) => {
+  const [mode, setMode] = useState<RoomAccess['mode']>(access?.mode || 'open');
+  const [password, setPassword] = useState('');
+  const [viewLink, setViewLink] = useState<string | null>(null);
+  const [viewTokenHash, setViewTokenHash] = useState<string | undefined>(access?.viewTokenHash);
+  const [isCopied, setIsCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isEncrypting, setIsEncrypting] = useState(false);
+
+  const needsPassword = mode !== 'open' && !access?.secretHash && !password;
+
+  const handleCreateViewLink = async () => {
+    const token = generateViewToken();
+    setViewTokenHash(await hashSecret(roomId, token));
+    const link = buildViewLink(roomId, token);
+    setViewLink(encryptionKey ? `${link}&key=${encryptionKey}` : link);
+    setIsCopied(false);
+  };
+
+  const handleCopyViewLink = () => {
+    if (!viewLink) return;
+    navigator.clipboard.writeText(viewLink).then(() => setIsCopied(true));
+  };
+
+  const handleEncrypt = async () => {
+    if (!onEnableEncryption || isEncrypting) return;
+    setIsEncrypting(true);
+    setError(null);
+    try {
+      await onEnableEncryption();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The room could not be encrypted.');
+      setIsEncrypting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (needsPassword) {
+      setError('Set a password to protect this room.');
+      return;
+    }
+    setIsSaving(true);
+    const derived = password ? await derivePassword(roomId, password) : null;
+    const secretHash = derived?.verifier ?? access?.secretHash;
+    onSave({
+      ...access,
+      mode,
+      secretHash: mode === 'open' ? undefined : secretHash,
+      viewTokenHash: mode === 'open' ? undefined : viewTokenHash,
+    }, derived?.key);
+  };
+
+  const inputClass = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-sm text-[var(--text-primary)] border border-transparent focus:border-[var(--accent)] focus:outline-none";
+  const labelClass = "block text-[11px] font-bold tracking-wider text-slate-400 dark:text-slate-500 mb-1.5 uppercase";
+
+  return (
+    <div
+      className="fixed inset-0 z-40 bg-black/50 backdrop-blur-sm flex items-center justify-center px-3"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-white dark:bg-[var(--bg-surface)] border border-[var(--border-muted)] rounded-2xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--border-muted)]">
+          <span className="text-base font-semibold text-[var(--text-primary)]">Room access</span>
+          <button type="button" className="text-sm text-[var(--accent)] font-bold" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="space-y-2">
+            {MODES.map(option => (
+              <label key={option.value} className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="radio"
+                  name="access-mode"
+                  className="mt-1 accent-[var(--accent)]"
+                  checked={mode === option.value}
+                  onChange={() => { setMode(option.value); setError(null); }}
+                />
+                <span>
+                  <span className="block text-sm font-medium text-[var(--text-primary)]">{option.label}</span>
+                  <span className="block text-xs text-[var(--text-secondary)]">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {mode !== 'open' && (
+            <>
+              <div>
+                <label className={labelClass}>{access?.secretHash ? 'New password (leave empty to keep)' : 'Password'}</label>
+                <input
+                  type="password"
+                  className={inputClass}
+                  value={password}
+                  onChange={(e) => { setPassword(e.target.value); setError(null); }}
+                  autoComplete="new-password"
+                />
+                {password && access?.secretHash && (
+                  <p className="text-xs text-amber-500 mt-1">Changing the password locks out everyone who hasn't got the new one.</p>
+                )}
+              </div>
+
+              <div>
+                <label className={labelClass}>Read-only share link</label>
+                {viewLink ? (
+                  <div className="flex gap-2">
+                    <input className={`${inputClass} font-mono text-xs`} value={viewLink} readOnly onFocus={(e) => e.target.select()} />
+                    <button type="button" className="text-sm font-bold text-[var(--accent)] shrink-0" onClick={handleCopyViewLink}>
+                      {isCopied ? 'Copied' : 'Copy'}
+                    </button>
+                  </div>
+                ) : (
+                  <button type="button" className="text-sm font-bold text-[var(--accent)]" onClick={handleCreateViewLink}>
+                    {viewTokenHash ? 'Replace read-only link' : 'Create read-only link'}
+                  </button>
+                )}
+                <p className="text-xs text-[var(--text-secondary)] mt-1">
+                  {viewLink
+                    ? 'Copy it now - the link is only shown once. Save to activate it.'
+                    : 'People with this link can read the room without the password.'}
+                </p>
+              </div>
+            </>
+          )}
+
+          <div>
+            <label className={labelClass}>End-to-end encryption</label>
+            {isEncrypted ? (
+              <p className="text-xs text-[var(--text-secondary)]">
+                Notes and chat are encrypted in this browser. Only people with the full link (including the key) can read them.
+              </p>
+            ) : (
+              <>
+                <button type="button" className="text-sm font-bold text-[var(--accent)]" onClick={handleEncrypt} disabled={isEncrypting}>
+                  {isEncrypting ? 'Encrypting...' : 'Encrypt this room'}
+                </button>
+                <p className="text-xs text-[var(--text-secondary)] mt-1">
+                  The key is added to the room link and never reaches the server, and the chat so far is stored again encrypted. Old links stop working. Earlier history snapshots stay unencrypted on the server.
+                </p>
+              </>
+            )}
+          </div>
+
+          {error && <p className="text-xs text-[#a31221]">{error}</p>}
+        </div>
+
+        <div className="flex justify-end px-4 py-3 border-t border-[var(--border-muted)]">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="text-sm font-bold text-white bg-[var(--accent)] px-4 py-2 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-40"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AccessPanel;
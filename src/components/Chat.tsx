@@ -1,37 +1,70 @@
-import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { marked } from 'marked';
-import DOMPurify from 'dompurify';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
 import { ChatMessage, MessageRole } from '../types';
+import { renderMarkdown } from '../services/markdownService';
+import { matchCommands, parseCommand, needsAI } from '../services/commandService';
+import { AI_MENTION } from '../services/promptService';
+import { CITATION_PREFIX } from '../services/retrievalService';
+import { formatTokens } from '../services/tokenService';
 
 interface ChatProps {
   messages: ChatMessage[];
-  onSendMessage: (text: string) => void;
+  onSendMessage: (text: string, toAI: boolean) => void | Promise<boolean>; // false puts the text back in the input
+  isMultiUser?: boolean; // others are here - messages go to the room unless addressed to the AI
   isLoading: boolean;
+  onStop?: () => void;                       // abort our streaming answer, keeping the partial text
+  onRegenerate?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, text: string) => Promise<boolean>; // branches the chat from there
   clientId: string;
+  readOnly?: boolean;
+  aiResponderLabel?: string | null; // another collaborator's question is being answered
+  hasOlderMessages?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  aiConsentRequired?: boolean; // encrypted room - sending needs an explicit opt-in
+  onAllowAI?: () => void;
+  contextOptions?: { id: string; label: string }[]; // which pages the AI reads ("" = the open page)
+  contextId?: string;
+  onContextChange?: (id: string) => void;
+  searchOtherRooms?: boolean; // the AI also searches the other rooms cached here; omitted when there are none
+  onSearchOtherRoomsChange?: (enabled: boolean) => void;
+  onOpenCitation?: (href: string) => void; // a [n] citation in an AI answer was clicked
 }
 
-const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading, clientId }) => {
+const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isMultiUser = false, isLoading, onStop, onRegenerate, onEditMessage, clientId, readOnly = false, aiResponderLabel = null, hasOlderMessages = false, isLoadingOlder = false, onLoadOlder, aiConsentRequired = false, onAllowAI, contextOptions = [], contextId = '', onContextChange, searchOtherRooms, onSearchOtherRoomsChange, onOpenCitation }) => {
   const [input, setInput] = useState('');
   const [keyboardHeight, setKeyboardHeight] = useState(0);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [highlightedCommand, setHighlightedCommand] = useState(0);
+  const [commandsDismissed, setCommandsDismissed] = useState(false);
+  const [sendTo, setSendTo] = useState<'ai' | 'room' | null>(null); // null follows the room size
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-  
-  const renderMarkdown = useMemo(() => {
-    marked.setOptions({ breaks: true });
-    return (text: string) => {
-      const raw = marked.parse(text || '');
-      return DOMPurify.sanitize(raw);
-    };
-  }, []);
+  // Scroll height before older messages were prepended, to keep the view in place
+  const prependScrollHeightRef = useRef<number | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // Follow the newest message - but not when older history is prepended above
+  const lastMessage = messages[messages.length - 1];
   useEffect(() => {
     scrollToBottom();
-  }, [messages, isLoading, keyboardHeight]);
+  }, [lastMessage?.id, lastMessage?.text, isLoading, keyboardHeight]);
+
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (prependScrollHeightRef.current === null || !container) return;
+    container.scrollTop += container.scrollHeight - prependScrollHeightRef.current;
+    prependScrollHeightRef.current = null;
+  }, [messages]);
+
+  const handleLoadOlder = () => {
+    prependScrollHeightRef.current = messagesContainerRef.current?.scrollHeight ?? null;
+    onLoadOlder?.();
+  };
 
   // ROBUST MOBILE KEYBOARD HANDLING
   useEffect(() => {
@@ -71,6 +104,7 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading, clientI
       // Don't interfere if user is typing in an input/textarea
       if (document.activeElement?.tagName === 'INPUT' || 
           document.activeElement?.tagName === 'TEXTAREA' ||
+          document.activeElement?.tagName === 'SELECT' ||
           document.activeElement?.isContentEditable) {
         return;
       }
@@ -97,12 +131,78 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading, clientI
     }
   }, []);
 
+  // Slash command autocomplete: matching commands while the name is typed, then its usage
+  const commandMatches = commandsDismissed ? [] : matchCommands(input);
+  const typedCommand = parseCommand(input);
+  const commandHint = commandMatches.length === 0 && typedCommand?.command.usage && !typedCommand.args
+    ? `/${typedCommand.command.name} ${typedCommand.command.usage} - ${typedCommand.command.description}`
+    : null;
+
+  // Alone, everything goes to the AI; with company, to the room unless switched or prefixed with @ai
+  const target = sendTo ?? (isMultiUser ? 'room' : 'ai');
+  const asksAI = (text: string) => (parseCommand(text) ? needsAI(text) : target === 'ai' || AI_MENTION.test(text));
+
+  // Room chat and commands that don't ask the AI work even while an answer is streaming
+  const isBlocked = (text: string) => asksAI(text) && (isLoading || aiConsentRequired || Boolean(aiResponderLabel));
+
+  // Quoting brings a room message into a prompt - the only way the AI gets to read one
+  const quoteMessage = (msg: ChatMessage, label: string) => {
+    const quoted = msg.text.replace(/\s+/g, ' ').trim();
+    setInput(`@ai ${label} said: "${quoted.length > 300 ? `${quoted.slice(0, 300)}…` : quoted}" `);
+    inputRef.current?.focus();
+  };
+
+  const completeCommand = (index: number) => {
+    const command = commandMatches[index];
+    if (!command) return;
+    setInput(`/${command.name}${command.usage ? ' ' : ''}`);
+    setHighlightedCommand(0);
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (commandMatches.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedCommand(i => (i + step + commandMatches.length) % commandMatches.length);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      completeCommand(highlightedCommand);
+    } else if (e.key === 'Enter' && input !== `/${commandMatches[highlightedCommand]?.name}`) {
+      // Enter picks the highlighted command; once it is typed out in full, Enter runs it
+      e.preventDefault();
+      completeCommand(highlightedCommand);
+    } else if (e.key === 'Escape') {
+      setCommandsDismissed(true);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
-    onSendMessage(input);
+    if (!input.trim() || readOnly || isBlocked(input)) return;
+    const text = input;
+    const result = onSendMessage(text, asksAI(text));
     setInput('');
     inputRef.current?.focus();
+
+    // Lost the race for the AI - give the text back instead of dropping it
+    Promise.resolve(result).then(sent => {
+      if (sent === false) setInput(current => current || text);
+    });
+  };
+
+  // Regenerate / edit are only offered while nobody's answer is streaming
+  const canAct = !isLoading && !readOnly && !aiConsentRequired && !aiResponderLabel;
+
+  const startEditing = (msg: ChatMessage) => {
+    setEditingId(msg.id);
+    setEditText(msg.text);
+  };
+
+  const handleEditSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !editText.trim() || !onEditMessage) return;
+    if (await onEditMessage(editingId, editText)) setEditingId(null);
   };
 
   // Click-to-focus handler for the main container
@@ -113,6 +213,14 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading, clientI
     }
   };
 
+  // Citations in AI answers link into the notes - the room opens them, not the hash router
+  const handleContentClick = (e: React.MouseEvent) => {
+    const href = (e.target as HTMLElement).closest('a')?.getAttribute('href');
+    if (!href?.startsWith(CITATION_PREFIX)) return;
+    e.preventDefault();
+    onOpenCitation?.(href);
+  };
+
   return (
     <div 
       className="flex flex-col h-full bg-[#f8fafc] sm:bg-white dark:bg-[var(--bg-surface)] text-[var(--text-primary)] relative"
@@ -124,6 +232,19 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading, clientI
         ref={messagesContainerRef}
         className="flex-1 overflow-y-auto overflow-x-hidden px-4 pt-4 space-y-4"
       >
+        {hasOlderMessages && onLoadOlder && (
+          <div className="flex justify-center">
+            <button
+              type="button"
+              className="text-xs font-bold text-slate-400 hover:text-[var(--accent)] transition-colors disabled:opacity-40"
+              onClick={handleLoadOlder}
+              disabled={isLoadingOlder}
+            >
+              {isLoadingOlder ? 'Loading...' : 'Load earlier messages'}
+            </button>
+          </div>
+        )}
+
         {messages.length === 0 && (
           <div className="h-full flex flex-col items-center justify-center text-slate-400 dark:text-slate-500 text-sm p-8 text-center opacity-80">
             <div className="w-12 h-12 bg-slate-100 dark:bg-slate-800 rounded-full flex items-center justify-center mb-3">
@@ -138,6 +259,7 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading, clientI
         
         {messages.map((msg, index) => {
           const isAI = msg.role === MessageRole.MODEL;
+          const isRoomChat = msg.role === MessageRole.CHAT;
           // A message is "mine" if I sent it
           const isMe = msg.senderId === clientId;
           
@@ -148,6 +270,14 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading, clientI
           const label = isAI ? 'AI Assistant' : (isMe ? 'You' : (msg.senderLabel || 'User'));
           
           const showLabel = index === 0 || messages[index - 1]?.senderId !== msg.senderId || messages[index - 1]?.role !== msg.role;
+
+          const isEditing = editingId === msg.id;
+          const canRegenerate = isAI && !msg.isStreaming && onRegenerate && messages.slice(0, index).some(m => m.role === MessageRole.USER);
+          const canEdit = isMe && !isAI && onEditMessage && !isEditing;
+          // Room chat is corrected in place, so it can be edited while an answer streams
+          const showRegenerate = canAct && canRegenerate;
+          const showEdit = canEdit && (isRoomChat ? !readOnly : canAct);
+          const showQuote = isRoomChat && !isEditing && !readOnly;
           
           return (
             <div
@@ -157,15 +287,37 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading, clientI
               {/* Label */}
                 {showLabel && (
                 <div className={`text-[11px] font-bold tracking-wider text-slate-400 dark:text-slate-500 mb-1.5 px-1 uppercase ${isHuman ? 'text-right' : 'text-left'}`}>
-                  {label}
+                  {label}{isRoomChat && <span className="normal-case font-medium tracking-normal"> · room chat</span>}
                   </div>
                 )}
               
-              {/* Bubble */}
+              {/* Editing one of our messages branches the conversation from it */}
+              {isEditing ? (
+                <form onSubmit={handleEditSubmit} className="w-full max-w-[85%] sm:max-w-[80%] space-y-2">
+                  <textarea
+                    autoFocus
+                    className="w-full bg-slate-100 dark:bg-slate-800 rounded-2xl px-4 py-3 text-[15px] text-slate-900 dark:text-slate-100 border border-[var(--accent)] focus:outline-none resize-none"
+                    rows={Math.min(6, editText.split('\n').length + 1)}
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                  />
+                  <div className="flex justify-end gap-3">
+                    <button type="button" className="text-xs font-bold text-slate-400 hover:text-[var(--accent)]" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </button>
+                    <button type="submit" className="text-xs font-bold text-[var(--accent)] disabled:opacity-40" disabled={!editText.trim() || !(isRoomChat || canAct)}>
+                      Send
+                    </button>
+                  </div>
+                  {!isRoomChat && <p className="text-[11px] text-slate-400 text-right">Later messages are removed and the AI answers again.</p>}
+                </form>
+              ) : (
                 <div
                 className={`
                   px-4 py-3 text-[15px] leading-relaxed break-words max-w-[85%] sm:max-w-[80%] shadow-sm
-                  ${isMe 
+                  ${isRoomChat
+                    ? 'bg-slate-100 dark:bg-slate-700/60 text-slate-800 dark:text-slate-100 border border-dashed border-slate-300 dark:border-slate-600 rounded-2xl rounded-tr-sm'
+                    : isMe 
                     ? 'bg-[var(--accent)] text-white rounded-2xl rounded-tr-sm' 
                     : (isAI 
                         ? 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 border border-slate-100 dark:border-slate-700 rounded-2xl rounded-tl-sm'
@@ -175,9 +327,48 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading, clientI
                 >
                   <div
                   className="bubble-content markdown-body"
+                    onClick={handleContentClick}
                     dangerouslySetInnerHTML={{ __html: renderMarkdown(msg.text) }}
                   />
-              </div>
+                </div>
+              )}
+
+              {/* What the answer cost, and whether the notes had to be cut to fit */}
+              {isAI && msg.usage && !msg.isStreaming && (
+                <div
+                  className="mt-1 px-1 text-[11px] text-slate-400 dark:text-slate-500"
+                  title={`${msg.usage.estimated ? 'Estimated from the text' : 'As reported by the provider'} · ${msg.usage.window.toLocaleString()}-token context window`}
+                >
+                  {msg.usage.estimated ? '≈' : ''}{formatTokens(msg.usage.input)} in · {formatTokens(msg.usage.output)} out
+                  {' · '}{Math.min(100, Math.round((msg.usage.input / msg.usage.window) * 100))}% of context
+                </div>
+              )}
+              {isAI && msg.usage?.truncated && !msg.isStreaming && (
+                <div className="mt-1 px-1 text-[11px] font-medium text-amber-600 dark:text-amber-400">
+                  Notes truncated to fit the model: it read {msg.usage.truncated.sent} of {msg.usage.truncated.total} passages, the ones closest to the question.
+                </div>
+              )}
+
+              {/* Actions */}
+              {(showRegenerate || showEdit || showQuote) && (
+                <div className="flex gap-3 mt-1 px-1">
+                  {showRegenerate && (
+                    <button type="button" className="text-[11px] font-bold text-slate-400 hover:text-[var(--accent)] transition-colors" onClick={() => onRegenerate!(msg.id)}>
+                      Regenerate
+                    </button>
+                  )}
+                  {showEdit && (
+                    <button type="button" className="text-[11px] font-bold text-slate-400 hover:text-[var(--accent)] transition-colors" onClick={() => startEditing(msg)}>
+                      Edit
+                    </button>
+                  )}
+                  {showQuote && (
+                    <button type="button" className="text-[11px] font-bold text-slate-400 hover:text-[var(--accent)] transition-colors" onClick={() => quoteMessage(msg, label)}>
+                      Quote to AI
+                    </button>
+                  )}
+                </div>
+              )}
               
               {/* Timestamp (optional, maybe on hover?) */}
             </div>
@@ -208,33 +399,123 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage, isLoading, clientI
           paddingRight: '16px',
         }}
       >
-        <form onSubmit={handleSubmit} className="flex items-end gap-2 max-w-4xl mx-auto">
+        {aiConsentRequired && !readOnly && (
+          <div className="flex items-center justify-between gap-3 max-w-4xl mx-auto mb-3 text-xs text-[var(--text-secondary)]">
+            <span>This room is end-to-end encrypted. Sending a message shares the notes and chat with the AI provider in plaintext.</span>
+            <button type="button" className="text-sm font-bold text-[var(--accent)] shrink-0" onClick={onAllowAI}>
+              Allow AI
+            </button>
+          </div>
+        )}
+        {(contextOptions.length > 0 || searchOtherRooms !== undefined) && !readOnly && (
+          <div className="flex items-center gap-2 max-w-4xl mx-auto mb-2 text-xs text-[var(--text-secondary)]">
+            {contextOptions.length > 0 && (
+              <>
+                <label htmlFor="ai-context">AI reads</label>
+                <select
+                  id="ai-context"
+                  className="bg-transparent font-medium text-[var(--text-primary)] focus:outline-none cursor-pointer"
+                  value={contextId}
+                  onChange={(e) => onContextChange?.(e.target.value)}
+                >
+                  {contextOptions.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </>
+            )}
+            {searchOtherRooms !== undefined && (
+              <label
+                className="flex items-center gap-1.5 ml-auto cursor-pointer"
+                title="Let the AI quote relevant passages from the other rooms saved in this browser"
+              >
+                <input
+                  type="checkbox"
+                  className="accent-[var(--accent)]"
+                  checked={searchOtherRooms}
+                  onChange={(e) => onSearchOtherRoomsChange?.(e.target.checked)}
+                />
+                Also search my other rooms
+              </label>
+            )}
+          </div>
+        )}
+        <form onSubmit={handleSubmit} className="relative flex items-end gap-2 max-w-4xl mx-auto">
+          {(commandMatches.length > 0 || commandHint) && (
+            <div className="absolute left-0 right-[52px] bottom-full mb-2 bg-white dark:bg-slate-800 border border-[var(--border-muted)] rounded-xl shadow-lg py-1 z-30">
+              {commandHint ? (
+                <div className="px-3 py-1.5 text-xs text-[var(--text-secondary)] font-mono">{commandHint}</div>
+              ) : (
+                commandMatches.map((command, i) => (
+                  <button
+                    key={command.name}
+                    type="button"
+                    // Keep focus (and the caret) in the input
+                    onMouseDown={(e) => e.preventDefault()}
+                    onMouseEnter={() => setHighlightedCommand(i)}
+                    onClick={() => { completeCommand(i); inputRef.current?.focus(); }}
+                    className={`w-full flex items-baseline gap-2 px-3 py-1.5 text-left text-sm ${i === highlightedCommand ? 'bg-slate-100 dark:bg-slate-700' : ''}`}
+                  >
+                    <span className="font-mono font-bold text-[var(--text-primary)]">/{command.name}</span>
+                    {command.usage && <span className="font-mono text-xs text-slate-400">{command.usage}</span>}
+                    <span className="text-xs text-[var(--text-secondary)] truncate">{command.description}</span>
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+          {!readOnly && (
+            <button
+              type="button"
+              onClick={() => setSendTo(target === 'ai' ? 'room' : 'ai')}
+              className={`h-[44px] px-3 rounded-full text-xs font-bold shrink-0 mb-[1px] transition-colors ${target === 'ai' ? 'bg-[var(--accent)]/10 text-[var(--accent)]' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400'}`}
+              title={target === 'ai' ? 'Messages go to the AI - switch to chatting with the room' : 'Messages go to the room only - switch to asking the AI'}
+            >
+              {target === 'ai' ? 'AI' : 'Room'}
+            </button>
+          )}
           <div className="flex-1 bg-slate-100 dark:bg-slate-800 rounded-2xl border border-transparent focus-within:border-[var(--accent)] focus-within:bg-white dark:focus-within:bg-slate-800 transition-all duration-200">
             <input
               ref={inputRef}
               type="text"
               className="w-full bg-transparent px-4 py-3 text-[16px] text-slate-900 dark:text-slate-100 placeholder:text-slate-400 focus:outline-none min-h-[44px]"
-              placeholder="Message AI..."
+              placeholder={readOnly ? "Read-only room" : target === 'room' ? "Message the room (@ai to ask the AI)" : aiResponderLabel ? `AI is answering ${aiResponderLabel}...` : "Message AI, or / for commands"}
               value={input}
-              onChange={(e) => setInput(e.target.value)}
-              disabled={isLoading}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setHighlightedCommand(0);
+                setCommandsDismissed(false);
+              }}
+              onKeyDown={handleInputKeyDown}
+              disabled={readOnly}
               style={{ fontSize: '16px' }} // Prevents iOS zoom
               autoComplete="off"
             />
           </div>
-          <button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            className="w-[44px] h-[44px] rounded-full bg-[var(--accent)] text-white flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed hover:opacity-90 active:scale-95 transition-all shadow-sm shrink-0 mb-[1px]"
-          >
-            {isLoading ? (
-              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-            ) : (
-              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 ml-0.5">
-                <path d="M3.478 2.405a.75.75 0 00-.926.94l2.432 7.905H13.5a.75.75 0 010 1.5H4.984l-2.432 7.905a.75.75 0 00.926.94 60.519 60.519 0 0018.445-8.986.75.75 0 000-1.218A60.517 60.517 0 003.478 2.405z" />
-            </svg>
-            )}
-          </button>
+          {isLoading && onStop ? (
+            <button
+              type="button"
+              onClick={onStop}
+              title="Stop generating"
+              className="w-[44px] h-[44px] rounded-full bg-[var(--accent)] text-white flex items-center justify-center hover:opacity-90 active:scale-95 transition-all shadow-sm shrink-0 mb-[1px]"
+            >
+              <div className="w-3.5 h-3.5 bg-white rounded-sm" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim() || readOnly || isBlocked(input)}
+              className="w-[44px] h-[44px] rounded-full bg-[var(--accent)] text-white flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed hover:opacity-90 active:scale-95 transition-all shadow-sm shrink-0 mb-[1px]"
+            >
+              {isLoading ? (
+                <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              ) : (
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 ml-0.5">
+                  <path d="M3.478 2.405a.75.75 0 00-.926.94l2.432 7.905H13.5a.75.75 0 010 1.5H4.984l-2.432 7.905a.75.75 0 00.926.94 60.519 60.519 0 0018.445-8.986.75.75 0 000-1.218A60.517 60.517 0 003.478 2.405z" />
+              </svg>
+              )}
+            </button>
+          )}
         </form>
       </div>
     </div>
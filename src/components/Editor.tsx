@@ -1,4 +1,15 @@
 import React from 'react';
+import { ViewMode } from '../types';
+import { AuthorSpan, diffText, transformOffset } from '../services/crdtService';
+import { ResolvedSuggestion } from '../services/suggestionService';
+import { FormatAction, applyFormat, findShortcut, toggleTask } from '../services/markdownService';
+import { IMPORT_ACCEPT } from '../services/importService';
+import { listInlineActions } from '../services/inlineActionService';
+import EditorBackdrop, { TextHighlight } from './EditorBackdrop';
+import SuggestionsBar from './SuggestionsBar';
+import FormattingToolbar from './FormattingToolbar';
+import MarkdownPreview from './MarkdownPreview';
+import InlineActionMenu, { InlineEditStatus } from './InlineActionMenu';
 
 interface OnlineUser {
   id: string;
@@ -6,41 +17,351 @@ interface OnlineUser {
   isTyping: boolean;
 }
 
+// Someone else's selection on this page, as offsets into `content`
+interface RemoteCursor {
+  id: string;
+  label: string;
+  color: string;
+  from: number;
+  to: number;
+}
+
 interface EditorProps {
   content: string;
   onChange: (value: string) => void;
   lastEditor?: { id: string; label: string } | null;
   onlineUsers?: OnlineUser[];
   clientId?: string;
-  onCursorMove?: (x: number, y: number) => void;
+  onSelectionChange?: (from: number, to: number) => void; // our caret / selection, to share with others
+  remoteCursors?: RemoteCursor[];
+  suggestions?: ResolvedSuggestion[];
+  onAcceptSuggestion?: (id: string) => void;
+  onRejectSuggestion?: (id: string) => void;
+  readOnly?: boolean;
+  viewMode?: ViewMode; // text, rendered markdown, or both side by side
+  onViewModeChange?: (mode: ViewMode) => void;
+  onImportFile?: (file: File) => void; // dropped or picked file; omitted for read-only rooms
+  getAuthorship?: () => AuthorSpan[]; // who wrote which text, for the blame view
+  highlightedRange?: { key: string; from: number; to: number }; // a cited passage to scroll to; a new key scrolls again
+  onInlineAction?: (actionId: string, from: number, to: number, args: string) => void; // AI action on the selection; omitted where the AI can't write
+  isAIBusy?: boolean; // someone's answer is streaming, so actions wait
+  inlineEdit?: InlineEditStatus & { from: number; to: number }; // the text an inline action is writing on this page
+  onStopInlineEdit?: () => void;
+  onUndoInlineEdit?: () => void;
+  onDismissInlineEdit?: () => void;
 }
 
+// Room the action menu may need below a selection before it flips above it
+const INLINE_MENU_HEIGHT = 72;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
 const Editor: React.FC<EditorProps> = ({ 
   content, 
   onChange, 
   lastEditor, 
   onlineUsers = [],
   clientId,
-  onCursorMove
+  onSelectionChange,
+  remoteCursors = [],
+  suggestions = [],
+  onAcceptSuggestion,
+  onRejectSuggestion,
+  readOnly = false,
+  viewMode = 'editor',
+  onViewModeChange = (_mode: ViewMode) => {},
+  onImportFile,
+  getAuthorship,
+  highlightedRange,
+  onInlineAction,
+  isAIBusy = false,
+  inlineEdit,
+  onStopInlineEdit,
+  onUndoInlineEdit,
+  onDismissInlineEdit,
 }) => {
-  const containerRef = React.useRef<HTMLDivElement>(null);
+  const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+  const previewRef = React.useRef<HTMLDivElement>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [isDraggingFile, setIsDraggingFile] = React.useState(false);
+  const [scrollTop, setScrollTop] = React.useState(0);
+  const textAreaWrapRef = React.useRef<HTMLDivElement>(null);
+  const [showAuthors, setShowAuthors] = React.useState(false);
+  const [authorTip, setAuthorTip] = React.useState<{ text: string; x: number; y: number } | null>(null);
 
-  const lastCursorUpdate = React.useRef<number>(0);
+  // Last value the textarea showed, and the caret within it, so merged
+  // remote edits don't throw the local caret to the end of the text
+  const renderedValueRef = React.useRef<string>(content);
+  const selectionRef = React.useRef<{ start: number; end: number }>({ start: 0, end: 0 });
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!onCursorMove || !containerRef.current) return;
-    
-    // Throttle updates to ~20fps (50ms)
-    const now = Date.now();
-    if (now - lastCursorUpdate.current < 50) return;
-    lastCursorUpdate.current = now;
-
-    const rect = containerRef.current.getBoundingClientRect();
-    const x = (e.clientX - rect.left) / rect.width;
-    const y = (e.clientY - rect.top) / rect.height;
-    onCursorMove(x, y);
+  const rememberSelection = () => {
+    const el = textareaRef.current;
+    if (!el) return;
+    selectionRef.current = { start: el.selectionStart, end: el.selectionEnd };
+    reportSelection();
+    if (onInlineAction) setMenuRange(el.selectionStart !== el.selectionEnd ? { from: el.selectionStart, to: el.selectionEnd } : null);
+  };
+
+  // ==================== REMOTE CURSORS ====================
+  const selectionTimerRef = React.useRef<NodeJS.Timeout | null>(null);
+  const lastReportRef = React.useRef<{ at: number; start: number; end: number }>({ at: 0, start: -1, end: -1 });
+
+  // Share our selection at most ~20 times a second, always ending on the latest one
+  const reportSelection = () => {
+    if (!onSelectionChange || selectionTimerRef.current) return;
+    const wait = Math.max(0, 50 - (Date.now() - lastReportRef.current.at));
+    selectionTimerRef.current = setTimeout(() => {
+      selectionTimerRef.current = null;
+      const { start, end } = selectionRef.current;
+      const last = lastReportRef.current;
+      if (start === last.start && end === last.end) return;
+      lastReportRef.current = { at: Date.now(), start, end };
+      onSelectionChange(start, end);
+    }, wait);
+  };
+
+  React.useEffect(() => () => {
+    if (selectionTimerRef.current) clearTimeout(selectionTimerRef.current);
+  }, []);
+
+  // Carets and selections of others, on a layer of their own so they can overlap suggestions and blame
+  const cursorHighlights: TextHighlight[] = remoteCursors.flatMap(cursor => {
+    const from = Math.min(cursor.from, cursor.to);
+    const to = Math.max(cursor.from, cursor.to);
+    const caret: TextHighlight = {
+      key: `caret-${cursor.id}`,
+      from: to,
+      to,
+      className: 'remote-caret',
+      style: { '--caret-color': cursor.color } as React.CSSProperties,
+      title: cursor.label,
+    };
+    if (from === to) return [caret];
+    return [
+      { key: `selection-${cursor.id}`, from, to, className: 'remote-selection', style: { backgroundColor: `${cursor.color}33` } },
+      caret,
+    ];
+  });
+
+  React.useLayoutEffect(() => {
+    const el = textareaRef.current;
+    const change = diffText(renderedValueRef.current, content);
+    renderedValueRef.current = content;
+    if (!el || !change || document.activeElement !== el) return;
+
+    const start = transformOffset(selectionRef.current.start, change);
+    const end = transformOffset(selectionRef.current.end, change);
+    el.setSelectionRange(start, end);
+    selectionRef.current = { start, end };
+    setMenuRange(range => (range && start !== end ? { from: start, to: end } : null));
+  }, [content]);
+
+  // ==================== INLINE AI ACTIONS ====================
+  // The menu follows a selection once the mouse is let go; while an action runs it tracks the text being written
+  const [menuRange, setMenuRange] = React.useState<{ from: number; to: number } | null>(null);
+  const [isPointerDown, setIsPointerDown] = React.useState(false);
+  const [menuPosition, setMenuPosition] = React.useState<{ x: number; y: number } | null>(null);
+  const [inlineArgs, setInlineArgs] = React.useState<Record<string, string>>({});
+  const showMenu = Boolean(inlineEdit || (onInlineAction && menuRange && !isPointerDown));
+
+  React.useEffect(() => {
+    if (!isPointerDown) return;
+    const release = () => setIsPointerDown(false);
+    window.addEventListener('mouseup', release);
+    return () => window.removeEventListener('mouseup', release);
+  }, [isPointerDown]);
+
+  // Marks whose boxes place the menu; the selection itself is painted by the textarea
+  const inlineHighlights: TextHighlight[] = inlineEdit
+    ? [{ key: 'inline-edit', from: inlineEdit.from, to: inlineEdit.to, className: inlineEdit.isStreaming ? 'inline-edit streaming' : 'inline-edit' }]
+    : showMenu && menuRange
+    ? [{ key: 'inline-selection', from: menuRange.from, to: menuRange.to, className: 'inline-selection' }]
+    : [];
+
+  const runInlineAction = (actionId: string, args: string) => {
+    if (!menuRange || !onInlineAction) return;
+    onInlineAction(actionId, menuRange.from, menuRange.to, args);
+    setMenuRange(null);
+  };
+
+  // Keep the menu when the focus moves into it (e.g. to type a language)
+  const handleBlur = (e: React.FocusEvent<HTMLTextAreaElement>) => {
+    if (!(e.relatedTarget as HTMLElement | null)?.closest('[data-inline-menu]')) setMenuRange(null);
+  };
+
+  // ==================== FORMATTING ====================
+  const handleFormat = (action: FormatAction) => {
+    const el = textareaRef.current;
+    if (!el || readOnly) return;
+
+    const result = applyFormat({ text: el.value, start: el.selectionStart, end: el.selectionEnd }, action);
+    const change = diffText(el.value, result.text);
+    el.focus();
+    if (change) {
+      // execCommand keeps the edit on the browser's undo stack (Ctrl+Z works as usual)
+      el.setSelectionRange(change.index, change.index + change.deleteCount);
+      const inserted = change.insert
+        ? document.execCommand('insertText', false, change.insert)
+        : document.execCommand('delete');
+      if (!inserted) {
+        renderedValueRef.current = result.text;
+        onChange(result.text);
+        requestAnimationFrame(() => el.setSelectionRange(result.start, result.end));
+      }
+    }
+    el.setSelectionRange(result.start, result.end);
+    rememberSelection();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape' && menuRange) {
+      setMenuRange(null);
+      return;
+    }
+    // Right after an inline action, Ctrl+Z takes back the whole of it
+    if (inlineEdit && !inlineEdit.isStreaming && !inlineEdit.error && onUndoInlineEdit && (e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      onUndoInlineEdit();
+      return;
+    }
+    const action = findShortcut(e);
+    if (!action || readOnly) return;
+    e.preventDefault();
+    handleFormat(action);
+  };
+
+  const handleToggleTask = (index: number) => {
+    const next = toggleTask(content, index);
+    if (next !== null) onChange(next);
+  };
+
+  // Keep the preview roughly level with the text in split mode
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    const el = e.currentTarget;
+    setScrollTop(el.scrollTop);
+    const preview = previewRef.current;
+    if (viewMode !== 'split' || !preview) return;
+    const ratio = el.scrollTop / Math.max(1, el.scrollHeight - el.clientHeight);
+    preview.scrollTop = ratio * (preview.scrollHeight - preview.clientHeight);
+  };
+
+  // ==================== IMPORT ====================
+  // Only files are taken over; dragged text still drops into the textarea as usual
+  const isFileDrag = (e: React.DragEvent) => Boolean(onImportFile) && e.dataTransfer.types.includes('Files');
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) onImportFile?.(file);
+  };
+
+  const handleFilePicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // picking the same file again still fires
+    if (file) onImportFile?.(file);
+  };
+
+  // ==================== BLAME ====================
+  const authorship = React.useMemo(
+    () => (showAuthors && getAuthorship ? getAuthorship() : []),
+    [showAuthors, content] // the spans only change with the text
+  );
+
+  // Color each author's text with their presence color; older untracked text stays plain
+  const authorHighlights: TextHighlight[] = authorship.flatMap(span => {
+    if (!span.author) return [];
+    const who = span.author.id === clientId ? 'You' : span.author.label;
+    const when = span.at ? ` · ${formatTime(span.at)}` : '';
+    return [{
+      key: `author-${span.from}`,
+      from: span.from,
+      to: span.to,
+      className: 'author-span',
+      style: { backgroundColor: `${span.author.color}33`, boxShadow: `inset 0 -2px 0 ${span.author.color}99` },
+      title: `${who}${span.ai ? ' (accepted AI suggestion)' : ''}${when}`,
+    }];
+  });
+
+  // The backdrop sits under the textarea, so hovering is hit-tested against its marks
+  const updateAuthorTip = (e: React.MouseEvent) => {
+    const wrap = textAreaWrapRef.current;
+    if (!showAuthors || !wrap) return;
+    const marks = wrap.querySelectorAll<HTMLElement>('mark.author-span');
+    for (let i = 0; i < marks.length; i++) {
+      const mark = marks[i];
+      const rects = mark.getClientRects();
+      for (let j = 0; j < rects.length; j++) {
+        const rect = rects[j];
+        if (e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom) {
+          const bounds = wrap.getBoundingClientRect();
+          setAuthorTip({ text: mark.title, x: e.clientX - bounds.left, y: rect.bottom - bounds.top });
+          return;
+        }
+      }
+    }
+    setAuthorTip(null);
   };
 
+  // Paint pending AI suggestions as tracked changes behind the text
+  const highlights: TextHighlight[] = suggestions.map(suggestion => ({
+    key: `suggestion-${suggestion.id}`,
+    from: suggestion.from,
+    to: suggestion.to,
+    className: suggestion.kind === 'insert' ? 'suggestion-insert' : 'suggestion-change',
+  }));
+
+  // ==================== CITED PASSAGE ====================
+  // Scrolled to once its mark is painted (the preview can't show it, so the text comes up beside it)
+  const citedHighlights: TextHighlight[] = highlightedRange
+    ? [{ key: `cited-${highlightedRange.key}`, from: highlightedRange.from, to: highlightedRange.to, className: 'cited-passage' }]
+    : [];
+
+  React.useEffect(() => {
+    if (highlightedRange && viewMode === 'preview') onViewModeChange('split');
+  }, [highlightedRange?.key]);
+
+  React.useLayoutEffect(() => {
+    const el = textareaRef.current;
+    const mark = textAreaWrapRef.current?.querySelector<HTMLElement>('mark.cited-passage');
+    if (!el || !mark) return;
+    el.scrollTop = Math.max(0, mark.offsetTop - el.clientHeight / 3);
+    setScrollTop(el.scrollTop);
+  }, [highlightedRange?.key, viewMode]);
+
+  // Below the end of the marked text, or above its start when there's no room underneath
+  React.useLayoutEffect(() => {
+    const wrap = textAreaWrapRef.current;
+    const rects = wrap?.querySelector<HTMLElement>('mark.inline-edit, mark.inline-selection')?.getClientRects();
+    if (!wrap || !rects || rects.length === 0) {
+      setMenuPosition(null);
+      return;
+    }
+    const bounds = wrap.getBoundingClientRect();
+    const last = rects[rects.length - 1];
+    let y = last.bottom - bounds.top + 6;
+    if (y + INLINE_MENU_HEIGHT > bounds.height) y = rects[0].top - bounds.top - INLINE_MENU_HEIGHT;
+    setMenuPosition(y < 0 ? null : { x: Math.max(8, Math.min(last.left - bounds.left, bounds.width - 360)), y });
+  }, [showMenu, menuRange, inlineEdit?.from, inlineEdit?.to, content, scrollTop, viewMode]);
+
   // Find users who are typing (excluding self)
   const typingUsers = onlineUsers.filter(u => u.isTyping && u.id !== clientId);
   
@@ -68,35 +389,136 @@ const Editor: React.FC<EditorProps> = ({
       );
     }
     
+    if (readOnly) {
+      return <span className="text-slate-400 dark:text-slate-500 text-xs">Read-only</span>;
+    }
+
     return <span className="text-slate-300 dark:text-slate-600 text-xs">Ready to write</span>;
   };
 
   return (
     <div 
-      ref={containerRef}
       className="h-full w-full flex flex-col editor-surface relative"
-      onMouseMove={handleMouseMove}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
     >
-      <textarea
-        className="editor-textarea flex-1 w-full h-full p-5 sm:p-8 resize-none outline-none text-lg leading-relaxed font-sans"
-        style={{ fontFamily: 'Helvetica Neue, Helvetica, Arial, sans-serif' }}
-        placeholder="Start typing your notes here..."
-        value={content}
-        onChange={(e) => onChange(e.target.value)}
-        spellCheck={false}
-        autoFocus
-      />
-      
-      {/* Meta info - shows typing status or last editor */}
-      <div className="editor-meta absolute top-0 right-0 p-3 flex items-center gap-3 pointer-events-none">
-        {onlineUsers.length > 0 && (
-          <span className="text-xs text-slate-400 dark:text-slate-500 font-medium bg-slate-100 dark:bg-slate-800/50 px-2 py-1 rounded-full">
-            {onlineUsers.length} online
-          </span>
+      <FormattingToolbar
+        viewMode={viewMode}
+        onViewModeChange={onViewModeChange}
+        onFormat={readOnly ? undefined : handleFormat}
+        onImport={onImportFile && (() => fileInputRef.current?.click())}
+        showAuthors={showAuthors}
+        onToggleAuthors={getAuthorship && (() => { setShowAuthors(on => !on); setAuthorTip(null); })}
+      >
+        {/* Meta info - shows typing status or last editor */}
+        <div className="flex items-center gap-3 min-w-0 truncate text-xs">
+          {onlineUsers.length > 0 && (
+            <span className="text-xs text-slate-400 dark:text-slate-500 font-medium bg-slate-100 dark:bg-slate-800/50 px-2 py-1 rounded-full shrink-0">
+              {onlineUsers.length} online
+            </span>
+          )}
+
+          {getMetaText()}
+        </div>
+      </FormattingToolbar>
+
+      <div className="flex-1 min-h-0 flex">
+        {viewMode !== 'preview' && (
+          <div
+            ref={textAreaWrapRef}
+            className="relative flex-1 min-w-0"
+            onMouseMove={updateAuthorTip}
+            onMouseLeave={() => setAuthorTip(null)}
+          >
+            {authorHighlights.length > 0 && (
+              <EditorBackdrop content={content} highlights={authorHighlights} scrollTop={scrollTop} />
+            )}
+            {cursorHighlights.length > 0 && (
+              <EditorBackdrop content={content} highlights={cursorHighlights} scrollTop={scrollTop} />
+            )}
+            {highlights.length > 0 && (
+              <EditorBackdrop content={content} highlights={highlights} scrollTop={scrollTop} />
+            )}
+            {citedHighlights.length > 0 && (
+              <EditorBackdrop content={content} highlights={citedHighlights} scrollTop={scrollTop} />
+            )}
+            {inlineHighlights.length > 0 && (
+              <EditorBackdrop content={content} highlights={inlineHighlights} scrollTop={scrollTop} />
+            )}
+            <textarea
+              className="editor-textarea w-full h-full p-5 sm:p-8 resize-none outline-none text-lg leading-relaxed font-sans"
+              style={{ fontFamily: 'Helvetica Neue, Helvetica, Arial, sans-serif' }}
+              placeholder={readOnly ? "This room is read-only." : "Start typing your notes here... (Markdown works)"}
+              readOnly={readOnly}
+              ref={textareaRef}
+              value={content}
+              onChange={(e) => {
+                if (inlineEdit && !inlineEdit.isStreaming) onDismissInlineEdit?.();
+                renderedValueRef.current = e.target.value;
+                rememberSelection();
+                onChange(e.target.value);
+              }}
+              onSelect={rememberSelection}
+              onMouseDown={() => setIsPointerDown(true)}
+              onBlur={handleBlur}
+              onKeyDown={handleKeyDown}
+              onScroll={handleScroll}
+              spellCheck={false}
+              autoFocus
+            />
+            {authorTip && (
+              <div
+                className="absolute z-10 -translate-x-1/2 mt-1 px-2 py-1 rounded-md bg-slate-800 text-white text-xs font-medium whitespace-nowrap shadow-lg pointer-events-none"
+                style={{ left: authorTip.x, top: authorTip.y }}
+              >
+                {authorTip.text}
+              </div>
+            )}
+            {showMenu && menuPosition && (
+              <InlineActionMenu
+                position={menuPosition}
+                actions={listInlineActions()}
+                args={inlineArgs}
+                onArgsChange={(actionId, value) => setInlineArgs(prev => ({ ...prev, [actionId]: value }))}
+                onRun={isAIBusy ? undefined : runInlineAction}
+                status={inlineEdit}
+                onStop={onStopInlineEdit}
+                onUndo={onUndoInlineEdit}
+                onDismiss={onDismissInlineEdit}
+              />
+            )}
+          </div>
+        )}
+
+        {viewMode !== 'editor' && (
+          <div className={`flex-1 min-w-0 ${viewMode === 'split' ? 'border-l border-[var(--border-muted)]' : ''}`}>
+            <MarkdownPreview
+              content={content}
+              onToggleTask={readOnly ? undefined : handleToggleTask}
+              scrollRef={previewRef}
+            />
+          </div>
         )}
-        
-        {getMetaText()}
       </div>
+
+      {onImportFile && (
+        <input ref={fileInputRef} type="file" accept={IMPORT_ACCEPT} className="hidden" onChange={handleFilePicked} />
+      )}
+
+      {isDraggingFile && (
+        <div className="absolute inset-2 z-20 rounded-xl border-2 border-dashed border-[var(--accent)] bg-white/80 dark:bg-black/60 flex items-center justify-center pointer-events-none">
+          <span className="text-sm font-bold text-[var(--accent)]">Drop to import into this page</span>
+        </div>
+      )}
+
+      {onAcceptSuggestion && onRejectSuggestion && (
+        <SuggestionsBar
+          suggestions={suggestions}
+          onAccept={onAcceptSuggestion}
+          onReject={onRejectSuggestion}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,69 @@
+import React from 'react';
+
+export interface TextHighlight {
+  key: string;
+  from: number;
+  to: number; // equal to `from` for a zero-width marker (e.g. an insertion point)
+  className: string;
+  style?: React.CSSProperties;
+  title?: string;
+}
+
+interface EditorBackdropProps {
+  content: string;
+  highlights: TextHighlight[];
+  scrollTop: number;
+}
+
+/**
+ * Mirror of the textarea rendered behind it with transparent text, so ranges
+ * of the plain-text notes can be painted (suggestions, authorship, carets).
+ * Must share the textarea's font, padding and wrapping exactly.
+ */
+const EditorBackdrop: React.FC<EditorBackdropProps> = ({ content, highlights, scrollTop }) => {
+  const ref = React.useRef<HTMLDivElement>(null);
+
+  React.useLayoutEffect(() => {
+    if (ref.current) ref.current.scrollTop = scrollTop;
+  }, [scrollTop, content, highlights]);
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+
+  // Highlights are painted in order; anything overlapping an earlier one is skipped
+  const sorted = [...highlights].sort((a, b) => a.from - b.from || a.to - b.to);
+  for (const highlight of sorted) {
+    const from = Math.min(Math.max(highlight.from, cursor), content.length);
+    const to = Math.min(highlight.to, content.length);
+    if (highlight.from < cursor || to < from) continue;
+
+    if (from > cursor) segments.push(content.slice(cursor, from));
+    segments.push(
+      <mark
+        key={highlight.key}
+        className={highlight.className}
+        style={highlight.style}
+        title={highlight.title}
+      >
+        {content.slice(from, to)}
+      </mark>
+    );
+    cursor = to;
+  }
+  segments.push(content.slice(cursor));
+
+  return (
+    <div
+      ref={ref}
+      aria-hidden
+      className="editor-backdrop absolute inset-0 p-5 sm:p-8 text-lg leading-relaxed font-sans pointer-events-none"
+      style={{ fontFamily: 'Helvetica Neue, Helvetica, Arial, sans-serif' }}
+    >
+      {segments}
+      {/* Keeps a trailing newline from collapsing, like the textarea does */}
+      {'\n '}
+    </div>
+  );
+};
+
+export default EditorBackdrop;
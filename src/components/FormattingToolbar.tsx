@@ -0,0 +1,114 @@
+import React from 'react';
+import { ViewMode } from '../types';
+import { FormatAction, FORMAT_SHORTCUTS } from '../services/markdownService';
+
+interface FormattingToolbarProps {
+  viewMode: ViewMode;
+  onViewModeChange: (mode: ViewMode) => void;
+  onFormat?: (action: FormatAction) => void; // omitted for read-only rooms
+  onImport?: () => void; // opens the file picker; omitted for read-only rooms
+  showAuthors?: boolean;
+  onToggleAuthors?: () => void; // blame view on/off; omitted when authorship isn't available
+  children?: React.ReactNode; // status text shown between the buttons and the mode switch
+}
+
+const IS_MAC = /Mac|iPhone|iPad/.test(navigator.platform);
+
+const BUTTONS: { action: FormatAction; label: React.ReactNode; title: string }[] = [
+  { action: 'bold', label: <span className="font-bold">B</span>, title: 'Bold' },
+  { action: 'italic', label: <span className="italic font-serif">I</span>, title: 'Italic' },
+  { action: 'strike', label: <span className="line-through">S</span>, title: 'Strikethrough' },
+  { action: 'heading', label: 'H', title: 'Heading' },
+  { action: 'code', label: <span className="font-mono">{'</>'}</span>, title: 'Inline code' },
+  { action: 'codeblock', label: <span className="font-mono">{'{ }'}</span>, title: 'Code block' },
+  { action: 'link', label: 'Link', title: 'Link' },
+  { action: 'quote', label: '“', title: 'Quote' },
+  { action: 'bullet', label: '•', title: 'Bulleted list' },
+  { action: 'numbered', label: '1.', title: 'Numbered list' },
+  { action: 'task', label: '☐', title: 'Task list' },
+  { action: 'table', label: '▦', title: 'Table' },
+];
+
+const MODES: { value: ViewMode; label: string }[] = [
+  { value: 'editor', label: 'Edit' },
+  { value: 'split', label: 'Split' },
+  { value: 'preview', label: 'Preview' },
+];
+
+// "Bold (⌘B)" / "Bulleted list (Ctrl+Shift+8)"
+const withShortcut = (action: FormatAction, title: string): string => {
+  const shortcut = FORMAT_SHORTCUTS.find(s => s.action === action);
+  if (!shortcut) return title;
+  const keys = [IS_MAC ? '⌘' : 'Ctrl', shortcut.shift ? (IS_MAC ? '⇧' : 'Shift') : null, shortcut.key.toUpperCase()]
+    .filter(Boolean)
+    .join(IS_MAC ? '' : '+');
+  return `${title} (${keys})`;
+};
+
+const FormattingToolbar: React.FC<FormattingToolbarProps> = ({ viewMode, onViewModeChange, onFormat, onImport, showAuthors = false, onToggleAuthors, children }) => {
+  return (
+    <div className="flex items-center gap-2 px-2 sm:px-3 py-1.5 border-b border-[var(--border-muted)] shrink-0">
+      {onFormat && viewMode !== 'preview' && (
+        <div className="flex items-center gap-0.5 overflow-x-auto min-w-0">
+          {BUTTONS.map(button => (
+            <button
+              key={button.action}
+              type="button"
+              title={withShortcut(button.action, button.title)}
+              // Keep the textarea focused (and its selection) while clicking
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onFormat(button.action)}
+              className="min-w-[28px] h-7 px-1.5 rounded-md text-sm text-slate-500 dark:text-slate-400 hover:text-[var(--accent)] hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors shrink-0"
+            >
+              {button.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 min-w-0 flex justify-end">{children}</div>
+
+      {onToggleAuthors && viewMode !== 'preview' && (
+        <button
+          type="button"
+          onClick={onToggleAuthors}
+          className={`text-xs font-bold transition-colors shrink-0 ${showAuthors ? 'text-[var(--accent)]' : 'text-slate-500 dark:text-slate-400 hover:text-[var(--accent)]'}`}
+          title="Color the text by who wrote it"
+        >
+          Blame
+        </button>
+      )}
+
+      {onImport && (
+        <button
+          type="button"
+          onClick={onImport}
+          className="text-xs font-bold text-slate-500 dark:text-slate-400 hover:text-[var(--accent)] transition-colors shrink-0"
+          title="Import Markdown, text, HTML, Word or a JSON export (or drop a file on the notes)"
+        >
+          Import
+        </button>
+      )}
+
+      <div className="flex items-center rounded-lg bg-slate-100 dark:bg-slate-800 p-0.5 shrink-0">
+        {MODES.map(mode => (
+          <button
+            key={mode.value}
+            type="button"
+            onClick={() => onViewModeChange(mode.value)}
+            className={`
+              text-xs font-bold px-2 py-1 rounded-md transition-colors
+              ${viewMode === mode.value
+                ? 'bg-white dark:bg-[var(--bg-surface)] text-[var(--accent)] shadow-sm'
+                : 'text-slate-500 dark:text-slate-400 hover:text-[var(--accent)]'}
+            `}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FormattingToolbar;
@@ -1,4 +1,6 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { EXPORT_FORMATS, ExportFormat } from '../services/exportService';
+import { ClientIdentity } from '../types';
 
 interface HeaderProps {
   roomId: string;
@@ -11,8 +13,18 @@ interface HeaderProps {
   onToggleNotes: () => void;
   isNotesOpen: boolean;
   isConnected?: boolean;
+  pendingChanges?: number; // saves queued while offline
   onlineCount?: number;
   onClearChat: () => void;
+  onOpenHistory: () => void;
+  onOpenAISettings: () => void;
+  onExport: (format: ExportFormat) => void;
+  isReadOnly?: boolean;
+  isProtected?: boolean;
+  onOpenAccess?: () => void;   // only passed to clients allowed to change access
+  onRequestEdit?: () => void;  // read-only viewer asking for the password
+  identity?: ClientIdentity;
+  onOpenProfile?: () => void;
 }
 
 const Header: React.FC<HeaderProps> = ({ 
@@ -26,9 +38,32 @@ const Header: React.FC<HeaderProps> = ({
   onToggleNotes,
   isNotesOpen,
   isConnected = false,
+  pendingChanges = 0,
   onlineCount = 0,
   onClearChat,
+  onOpenHistory,
+  onOpenAISettings,
+  onExport,
+  isReadOnly = false,
+  isProtected = false,
+  onOpenAccess,
+  onRequestEdit,
+  identity,
+  onOpenProfile,
 }) => {
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const exportRef = useRef<HTMLDivElement>(null);
+
+  // Close the export menu on any click outside it
+  useEffect(() => {
+    if (!isExportOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!exportRef.current?.contains(e.target as Node)) setIsExportOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isExportOpen]);
+
   return (
     <header className="fixed top-0 left-0 right-0 h-14 border-b border-gray-200 dark:border-[var(--border-muted)] flex items-center justify-between px-3 sm:px-4 bg-white dark:bg-[var(--bg-surface)] z-30">
       <div className="flex items-center gap-2 sm:gap-4 min-w-0">
@@ -57,14 +92,24 @@ const Header: React.FC<HeaderProps> = ({
               <span className="text-[10px] sm:text-xs font-medium text-gray-400">+{onlineCount}</span>
             )}
           </div>
+
+          {isReadOnly && (
+            <span className="text-[10px] sm:text-xs font-bold uppercase tracking-wider text-amber-500 ml-1">Read-only</span>
+          )}
         </div>
       </div>
 
       <div className="flex items-center gap-3 sm:gap-4 shrink-0">
-        {/* Save Status (Desktop) */}
-        <span className={`hidden sm:inline text-xs font-medium transition-colors duration-300 ${isSaved ? 'text-gray-300' : 'text-amber-500'}`}>
-          {isSaved ? 'Saved' : 'Saving...'}
-        </span>
+        {/* Save Status (Desktop) - offline changes waiting to sync show on mobile too */}
+        {pendingChanges > 0 ? (
+          <span className="text-xs font-medium text-amber-500" title="Saved on this device - will sync when you're back online">
+            {pendingChanges} <span className="hidden sm:inline">{pendingChanges === 1 ? 'change' : 'changes'} </span>pending
+          </span>
+        ) : (
+          <span className={`hidden sm:inline text-xs font-medium transition-colors duration-300 ${isSaved ? 'text-gray-300' : 'text-amber-500'}`}>
+            {isSaved ? 'Saved' : 'Saving...'}
+          </span>
+        )}
 
         {/* NOTES TOGGLE - Text Only */}
         <button 
@@ -92,6 +137,88 @@ const Header: React.FC<HeaderProps> = ({
           {showCopied ? "Copied" : "Share"}
         </button>
         
+        {/* Unlock editing - read-only viewers of a password room */}
+        {onRequestEdit && (
+          <button
+            onClick={onRequestEdit}
+            className="text-sm font-bold text-amber-500 hover:opacity-80 transition-colors"
+            title="Enter the password to edit"
+          >
+            Unlock
+          </button>
+        )}
+
+        {/* Access - Text Only */}
+        {onOpenAccess && (
+          <button
+            onClick={onOpenAccess}
+            className={`text-sm font-bold transition-colors ${isProtected ? 'text-[var(--accent)]' : 'text-slate-500 dark:text-slate-400 hover:text-[var(--accent)]'}`}
+            title="Password and read-only link"
+          >
+            {isProtected ? 'Locked' : 'Lock'}
+          </button>
+        )}
+
+        {/* AI Settings - Text Only */}
+        {!isReadOnly && (
+          <button
+            onClick={onOpenAISettings}
+            className="text-sm font-bold text-slate-500 dark:text-slate-400 hover:text-[var(--accent)] transition-colors"
+            title="AI provider and model for this room"
+          >
+            AI
+          </button>
+        )}
+
+        {/* History - Text Only */}
+        {!isReadOnly && (
+          <button
+            onClick={onOpenHistory}
+            className="text-sm font-bold text-slate-500 dark:text-slate-400 hover:text-[var(--accent)] transition-colors"
+            title="Version history"
+          >
+            History
+          </button>
+        )}
+
+        {/* Export - Text Only, with a small menu of formats */}
+        <div ref={exportRef} className="relative">
+          <button
+            onClick={() => setIsExportOpen(prev => !prev)}
+            className={`text-sm font-bold transition-colors ${isExportOpen ? 'text-[var(--accent)]' : 'text-slate-500 dark:text-slate-400 hover:text-[var(--accent)]'}`}
+            title="Download the notes or the whole room"
+          >
+            Export
+          </button>
+
+          {isExportOpen && (
+            <div className="absolute right-0 top-full mt-3 w-60 rounded-xl border border-[var(--border-muted)] bg-white dark:bg-[var(--bg-surface)] shadow-xl py-1.5 z-40">
+              {EXPORT_FORMATS.map(({ format, label, description }) => (
+                <button
+                  key={format}
+                  onClick={() => { setIsExportOpen(false); onExport(format); }}
+                  className="w-full text-left px-4 py-2 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                >
+                  <div className="text-sm font-bold text-[var(--text-primary)]">{label}</div>
+                  <div className="text-xs text-[var(--text-secondary)]">{description}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Profile - our color and name */}
+        {identity && onOpenProfile && (
+          <button
+            onClick={onOpenProfile}
+            className="flex items-center gap-1.5 text-sm font-bold text-slate-500 dark:text-slate-400 hover:text-[var(--accent)] transition-colors"
+            title={identity.email ? `${identity.label} (${identity.email})` : `${identity.label} - change your name and color`}
+          >
+            <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: identity.color }} />
+            <span className="hidden md:inline max-w-[120px] truncate">{identity.label}</span>
+          </button>
+        )}
+
         {/* Theme Toggle - Text Only */}
         <button 
           onClick={onToggleTheme}
@@ -102,13 +229,15 @@ const Header: React.FC<HeaderProps> = ({
         </button>
 
         {/* Clear Chat - Text Only (Red) */}
-        <button 
-          onClick={onClearChat}
-          className="text-sm font-bold text-[#a31221] hover:opacity-80 transition-colors ml-1"
-          title="Clear AI Chat History"
-        >
-          Clear
-        </button>
+        {!isReadOnly && (
+          <button 
+            onClick={onClearChat}
+            className="text-sm font-bold text-[#a31221] hover:opacity-80 transition-colors ml-1"
+            title="Clear AI Chat History"
+          >
+            Clear
+          </button>
+        )}
       </div>
     </header>
   );
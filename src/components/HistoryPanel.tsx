@@ -0,0 +1,194 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { RoomVersion } from '../types';
+import { listVersions, diffLines, DiffLine } from '../services/historyService';
+import { MAIN_PAGE_ID } from '../services/pageService';
+
+interface HistoryPanelProps {
+  roomId: string;
+  currentPages: { id: string; title: string; content: string }[]; // every page, as the room holds them now
+  clientId: string;
+  onRestore: (version: RoomVersion) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// A page a restore would write, and how it differs from now
+interface PageDiff {
+  id: string;
+  title: string;
+  currentTitle?: string; // missing if the page was deleted since
+  diff: DiffLine[];
+  hasChanges: boolean;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ roomId, currentPages, clientId, onRestore, onClose }) => {
+  const [versions, setVersions] = useState<RoomVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedPageId, setSelectedPageId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listVersions(roomId).then(list => {
+      if (cancelled) return;
+      setVersions(list);
+      setSelectedId(list[0]?.id ?? null);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [roomId]);
+
+  const selected = versions.find(v => v.id === selectedId) || null;
+
+  // Diff from the snapshot to what each page holds now. A restore writes every page of the
+  // snapshot (older snapshots only have the main page); pages created since are kept as they are.
+  const pageDiffs = useMemo((): PageDiff[] => {
+    if (!selected) return [];
+    const main = currentPages.find(page => page.id === MAIN_PAGE_ID);
+    const restored = selected.pages ?? [{ id: MAIN_PAGE_ID, title: main?.title ?? '', content: selected.content }];
+    return restored.map(page => {
+      const current = currentPages.find(p => p.id === page.id);
+      const diff = diffLines(page.content, current?.content ?? '');
+      return {
+        id: page.id,
+        title: page.title,
+        currentTitle: current?.title,
+        diff,
+        hasChanges: !current || current.title !== page.title || diff.some(line => line.type !== 'same'),
+      };
+    });
+  }, [selected, currentPages]);
+  const changedPages = pageDiffs.filter(page => page.hasChanges);
+  const shownPage = pageDiffs.find(page => page.id === selectedPageId) ?? changedPages[0] ?? pageDiffs[0];
+  const diff = shownPage?.diff ?? [];
+
+  return (
+    <div
+      className="fixed inset-0 z-40 bg-black/50 backdrop-blur-sm flex items-center justify-center px-3"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-4xl h-[80vh] bg-white dark:bg-[var(--bg-surface)] border border-[var(--border-muted)] rounded-2xl shadow-2xl overflow-hidden flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--border-muted)]">
+          <span className="text-base font-semibold text-[var(--text-primary)]">Version history</span>
+          <button className="text-sm text-[var(--accent)] font-bold" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Snapshot list */}
+          <div className="w-56 sm:w-64 shrink-0 border-r border-[var(--border-muted)] overflow-y-auto">
+            {isLoading && (
+              <div className="p-4 text-sm text-[var(--text-secondary)]">Loading...</div>
+            )}
+            {!isLoading && versions.length === 0 && (
+              <div className="p-4 text-sm text-[var(--text-secondary)]">
+                No snapshots yet. Versions are saved every few minutes while the room is edited.
+              </div>
+            )}
+            {versions.map(version => {
+              const author = version.lastEditor
+                ? (version.lastEditor.id === clientId ? 'You' : version.lastEditor.label)
+                : 'Unknown';
+              return (
+                <button
+                  key={version.id}
+                  onClick={() => setSelectedId(version.id)}
+                  className={`
+                    w-full text-left px-4 py-3 border-b border-[var(--border-muted)] transition-colors
+                    ${version.id === selectedId ? 'bg-slate-100 dark:bg-slate-800' : 'hover:bg-slate-50 dark:hover:bg-slate-800/50'}
+                  `}
+                >
+                  <div className="text-sm font-medium text-[var(--text-primary)]">{formatTime(version.createdAt)}</div>
+                  <div className="text-xs text-[var(--text-secondary)]">
+                    {author}{version.reason ? ` · ${version.reason}` : ''}
+                  </div>
+                  <div className="text-[11px] text-slate-400 dark:text-slate-500">
+                    {version.messages.length} messages
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Diff against current content */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {selected ? (
+              <>
+                <div className="flex items-center justify-between px-4 py-2 border-b border-[var(--border-muted)]">
+                  <span className="text-xs text-[var(--text-secondary)]">
+                    {changedPages.length === 0
+                      ? 'Notes are identical to this version'
+                      : pageDiffs.length === 1
+                        ? 'Changes made since this version'
+                        : `Restoring changes ${changedPages.length} of the ${pageDiffs.length} pages in this version: ${changedPages.map(page => page.title).join(', ')}`}
+                  </span>
+                  <button
+                    onClick={() => onRestore(selected)}
+                    className="text-sm font-bold text-white bg-[var(--accent)] px-3 py-1.5 rounded-lg hover:opacity-90 transition-opacity"
+                  >
+                    Restore
+                  </button>
+                </div>
+                {pageDiffs.length > 1 && (
+                  <div className="flex flex-wrap gap-1 px-4 py-2 border-b border-[var(--border-muted)]">
+                    {pageDiffs.map(page => (
+                      <button
+                        key={page.id}
+                        onClick={() => setSelectedPageId(page.id)}
+                        className={`
+                          px-2 py-1 rounded-md text-xs font-medium transition-colors
+                          ${page.id === shownPage?.id ? 'bg-slate-100 dark:bg-slate-800 text-[var(--text-primary)]' : 'text-[var(--text-secondary)] hover:bg-slate-50 dark:hover:bg-slate-800/50'}
+                        `}
+                      >
+                        {page.hasChanges && <span className="inline-block w-1.5 h-1.5 rounded-full bg-[var(--accent)] mr-1.5 align-middle" />}
+                        {page.title}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {shownPage && shownPage.currentTitle !== shownPage.title && (
+                  <div className="px-4 py-2 border-b border-[var(--border-muted)] text-xs text-amber-600 dark:text-amber-400">
+                    {shownPage.currentTitle === undefined
+                      ? `"${shownPage.title}" was deleted since this version; restoring brings it back.`
+                      : `Renamed since this version: "${shownPage.currentTitle}" goes back to "${shownPage.title}".`}
+                  </div>
+                )}
+                <pre className="flex-1 overflow-auto text-xs leading-relaxed font-mono p-4 whitespace-pre-wrap break-words">
+                  {diff.map((line, i) => (
+                    <div
+                      key={i}
+                      className={
+                        line.type === 'added'
+                          ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+                          : line.type === 'removed'
+                            ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 line-through'
+                            : 'text-[var(--text-secondary)]'
+                      }
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+                    </div>
+                  ))}
+                </pre>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-sm text-[var(--text-secondary)]">
+                Select a version
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
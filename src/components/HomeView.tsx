@@ -1,5 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { generateRoomId } from '../services/storageService';
+import { ImportedFile, IMPORT_ACCEPT, readImportFile, suggestRoomId, queueImport } from '../services/importService';
+import RoomDirectory from './RoomDirectory';
 
 interface HomeViewProps {
   onJoinRoom: (id: string) => void;
@@ -10,6 +12,11 @@ const HomeView: React.FC<HomeViewProps> = ({ onJoinRoom }) => {
   const [isDark, setIsDark] = useState<boolean>(() => {
     return localStorage.getItem('padai_theme') === 'dark';
   });
+  const [imported, setImported] = useState<ImportedFile | null>(null);
+  const [importRoom, setImportRoom] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleSubmit = (e?: React.FormEvent) => {
     if (e) e.preventDefault();
@@ -17,6 +24,34 @@ const HomeView: React.FC<HomeViewProps> = ({ onJoinRoom }) => {
     onJoinRoom(target);
   };
 
+  // A dropped or picked file opens in a room; the room asks before overwriting anything
+  const handleFile = async (file: File) => {
+    setImportError(null);
+    try {
+      const result = await readImportFile(file);
+      setImported(result);
+      setImportRoom(suggestRoomId(result) || generateRoomId());
+    } catch (e) {
+      setImported(null);
+      setImportError(e instanceof Error ? e.message : 'This file could not be imported.');
+    }
+  };
+
+  const handleImportSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!imported) return;
+    const target = importRoom.trim() || generateRoomId();
+    queueImport(target, imported);
+    onJoinRoom(target);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
   useEffect(() => {
     const body = document.body;
     if (isDark) {
@@ -29,7 +64,18 @@ const HomeView: React.FC<HomeViewProps> = ({ onJoinRoom }) => {
   }, [isDark]);
 
   return (
-    <div className="min-h-screen w-full flex flex-col bg-[#f7f1e1] dark:bg-[var(--bg-page)] text-[#1f1b1a] dark:text-[var(--text-primary)] px-4">
+    <div
+      className="min-h-screen w-full flex flex-col bg-[#f7f1e1] dark:bg-[var(--bg-page)] text-[#1f1b1a] dark:text-[var(--text-primary)] px-4"
+      onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) { e.preventDefault(); setIsDraggingFile(true); } }}
+      onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false); }}
+      onDrop={handleDrop}
+    >
+      {isDraggingFile && (
+        <div className="fixed inset-3 z-40 rounded-2xl border-4 border-dashed border-[var(--accent)] bg-[#f7f1e1]/80 dark:bg-black/60 flex items-center justify-center pointer-events-none">
+          <span className="text-xl font-bold text-[var(--accent)]">Drop to start a pad from this file</span>
+        </div>
+      )}
+
       <div className="flex justify-end pt-4 pr-2">
         <button
           onClick={() => setIsDark(prev => !prev)}
@@ -72,7 +118,53 @@ const HomeView: React.FC<HomeViewProps> = ({ onJoinRoom }) => {
                 Go!
               </button>
             </form>
-            <p className="text-sm sm:text-lg text-[#6b5d53] dark:text-[var(--text-secondary)]">No login required</p>
+            <p className="text-sm sm:text-lg text-[#6b5d53] dark:text-[var(--text-secondary)]">
+              No login required ·{' '}
+              <button type="button" className="underline hover:text-[var(--accent)]" onClick={() => fileInputRef.current?.click()}>
+                import a file
+              </button>
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={IMPORT_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleFile(file);
+              }}
+            />
+
+            {imported && (
+              <form
+                onSubmit={handleImportSubmit}
+                className="w-full max-w-3xl flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 text-left text-sm border-2 border-dashed border-[#1f1b1a] dark:border-[var(--border-muted)] rounded-lg px-4 py-3 bg-[#fffaf0] dark:bg-[var(--bg-surface)]"
+              >
+                <span className="truncate text-[#3b342f] dark:text-[var(--text-secondary)]">
+                  {imported.fileName} →
+                </span>
+                <input
+                  type="text"
+                  autoFocus
+                  placeholder="room-name"
+                  className="flex-1 min-w-0 bg-transparent border-b border-[#1f1b1a]/30 dark:border-[var(--border-muted)] py-1 text-[#1f1b1a] dark:text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent)]"
+                  value={importRoom}
+                  onChange={(e) => setImportRoom(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, ''))}
+                />
+                <div className="flex items-center gap-3 shrink-0">
+                  <button type="button" className="font-bold text-[#6b5d53] dark:text-[var(--text-secondary)] hover:text-[var(--accent)]" onClick={() => setImported(null)}>
+                    Cancel
+                  </button>
+                  <button type="submit" className="font-bold text-white bg-[var(--accent)] px-4 py-1.5 rounded-md hover:opacity-90 transition-opacity">
+                    Import
+                  </button>
+                </div>
+              </form>
+            )}
+            {importError && <p className="text-sm text-[#a31221]">{importError}</p>}
+
+            <RoomDirectory onOpen={onJoinRoom} />
           </div>
         </div>
       </div>
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ImportedFile, ImportMode } from '../services/importService';
+
+interface ImportPromptProps {
+  file: ImportedFile | null;
+  error?: string; // the file couldn't be read - only the message is shown
+  pageTitle: string; // page a document would land in
+  onChoose: (mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+// Asks how an imported file should meet what the room already holds
+const ImportPrompt: React.FC<ImportPromptProps> = ({ file, error, pageTitle, onChoose, onClose }) => {
+  const choices: { mode: ImportMode; label: string; description: string }[] = file?.kind === 'bundle'
+    ? [
+        { mode: 'replace', label: 'Replace this room', description: 'Notes, pages and chat are restored from the file. The current state is kept in version history.' },
+        { mode: 'append', label: 'Add to this room', description: 'Its pages are added as new pages and its chat is appended.' },
+      ]
+    : [
+        { mode: 'replace', label: `Replace "${pageTitle}"`, description: 'The page text is swapped for the file. The current text is kept in version history.' },
+        { mode: 'append', label: `Append to "${pageTitle}"`, description: 'The file is added below the current text.' },
+        { mode: 'new-page', label: 'Add as a new page', description: 'A new page named after the file.' },
+      ];
+
+  return (
+    <div
+      className="fixed inset-0 z-40 bg-black/50 backdrop-blur-sm flex items-center justify-center px-3"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md bg-white dark:bg-[var(--bg-surface)] border border-[var(--border-muted)] rounded-2xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--border-muted)]">
+          <span className="text-base font-semibold text-[var(--text-primary)] truncate">
+            {file ? `Import ${file.fileName}` : 'Import failed'}
+          </span>
+          <button type="button" className="text-sm text-[var(--accent)] font-bold shrink-0 ml-3" onClick={onClose}>
+            {file ? 'Cancel' : 'Close'}
+          </button>
+        </div>
+
+        {error ? (
+          <p className="p-4 text-sm text-[#a31221]">{error}</p>
+        ) : (
+          <div className="p-2">
+            <p className="px-2 pt-1 pb-2 text-sm text-[var(--text-secondary)]">
+              {file?.kind === 'bundle' ? 'This room already has notes or chat.' : `"${pageTitle}" already has text.`}
+            </p>
+            {choices.map(choice => (
+              <button
+                key={choice.mode}
+                type="button"
+                onClick={() => onChoose(choice.mode)}
+                className="w-full text-left px-3 py-2.5 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+              >
+                <div className="text-sm font-bold text-[var(--text-primary)]">{choice.label}</div>
+                <div className="text-xs text-[var(--text-secondary)]">{choice.description}</div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportPrompt;
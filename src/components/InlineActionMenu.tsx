@@ -0,0 +1,146 @@
+import React from 'react';
+import { InlineAction } from '../services/inlineActionService';
+
+// The action writing into the notes (or just finished), as the menu shows it
+export interface InlineEditStatus {
+  label: string;
+  isStreaming: boolean;
+  error?: string;
+}
+
+interface InlineActionMenuProps {
+  position: { x: number; y: number }; // below the selection, relative to the text area
+  actions: InlineAction[];
+  args: Record<string, string>; // argument typed per action, e.g. the language
+  onArgsChange: (actionId: string, value: string) => void;
+  onRun?: (actionId: string, args: string) => void; // omitted while the AI is busy
+  status?: InlineEditStatus;
+  onStop?: () => void;
+  onUndo?: () => void;
+  onDismiss?: () => void;
+}
+
+// Floating menu over a selection in the notes; once an action runs it shows its progress instead
+const InlineActionMenu: React.FC<InlineActionMenuProps> = ({
+  position,
+  actions,
+  args,
+  onArgsChange,
+  onRun,
+  status,
+  onStop,
+  onUndo,
+  onDismiss,
+}) => {
+  const [asking, setAsking] = React.useState<InlineAction | null>(null);
+
+  // Buttons must not take the focus, or the textarea would lose its selection
+  const keepSelection = (e: React.MouseEvent) => e.preventDefault();
+
+  const run = (action: InlineAction) => {
+    if (!onRun) return;
+    // Actions with an argument ask for it first, filled in with the last one used
+    if (action.argsLabel && asking?.id !== action.id) {
+      setAsking(action);
+      return;
+    }
+    onRun(action.id, args[action.id]?.trim() || '');
+  };
+
+  const buttonClass = 'px-2 py-1 rounded-md text-xs font-semibold whitespace-nowrap transition-colors';
+
+  let body: React.ReactNode;
+  if (status) {
+    body = (
+      <div className="flex items-center gap-3 px-2 py-1 text-xs">
+        {status.isStreaming ? (
+          <>
+            <span className="flex items-center gap-2 font-semibold text-[var(--accent)]">
+              <span className="h-2 w-2 rounded-full bg-[var(--accent)] animate-pulse" />
+              {status.label}…
+            </span>
+            {onStop && (
+              <button onMouseDown={keepSelection} onClick={onStop} className={`${buttonClass} text-slate-500 hover:text-[#a31221]`}>
+                Stop
+              </button>
+            )}
+          </>
+        ) : status.error ? (
+          <>
+            <span className="text-[#a31221] max-w-xs truncate" title={status.error}>{status.error}</span>
+            <button onMouseDown={keepSelection} onClick={onDismiss} className={`${buttonClass} text-slate-500 hover:text-[var(--text-primary)]`}>
+              Close
+            </button>
+          </>
+        ) : (
+          <>
+            <span className="font-semibold text-slate-500 dark:text-slate-400">{status.label} done</span>
+            <button
+              onMouseDown={keepSelection}
+              onClick={onUndo}
+              className={`${buttonClass} text-[var(--accent)] hover:bg-slate-100 dark:hover:bg-slate-800`}
+              title="Undo (Ctrl+Z)"
+            >
+              Undo
+            </button>
+            <button onMouseDown={keepSelection} onClick={onDismiss} className={`${buttonClass} text-slate-500 hover:text-[var(--text-primary)]`}>
+              Keep
+            </button>
+          </>
+        )}
+      </div>
+    );
+  } else if (asking) {
+    body = (
+      <form
+        className="flex items-center gap-2 p-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (args[asking.id]?.trim()) run(asking);
+        }}
+      >
+        <span className="text-xs font-semibold text-slate-500 dark:text-slate-400 pl-1">{asking.label}</span>
+        <input
+          autoFocus
+          value={args[asking.id] || ''}
+          onChange={(e) => onArgsChange(asking.id, e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && setAsking(null)}
+          placeholder={asking.argsLabel}
+          className="w-32 px-2 py-1 text-xs rounded-md border border-[var(--border-muted)] bg-transparent outline-none focus:border-[var(--accent)] text-[var(--text-primary)]"
+        />
+        <button type="submit" disabled={!onRun} className={`${buttonClass} text-white bg-[var(--accent)] hover:opacity-90 disabled:opacity-50`}>
+          Go
+        </button>
+      </form>
+    );
+  } else {
+    body = (
+      <div className="flex flex-wrap gap-0.5 p-1">
+        {actions.map(action => (
+          <button
+            key={action.id}
+            onMouseDown={keepSelection}
+            onClick={() => run(action)}
+            disabled={!onRun}
+            title={onRun ? undefined : 'The AI is busy answering'}
+            className={`${buttonClass} text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 hover:text-[var(--accent)] disabled:opacity-40 disabled:hover:bg-transparent`}
+          >
+            {action.label}{action.argsLabel ? '…' : ''}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      data-inline-menu
+      className="absolute z-20 max-w-[22rem] rounded-xl border border-[var(--border-muted)] bg-white dark:bg-[var(--bg-surface)] shadow-lg"
+      style={{ left: position.x, top: position.y }}
+    >
+      {body}
+    </div>
+  );
+};
+
+export default InlineActionMenu;
@@ -0,0 +1,39 @@
+import React, { useMemo } from 'react';
+import { renderMarkdown } from '../services/markdownService';
+
+interface MarkdownPreviewProps {
+  content: string;
+  onToggleTask?: (index: number) => void; // omitted for read-only rooms
+  scrollRef?: React.Ref<HTMLDivElement>;
+}
+
+/**
+ * Rendered notes. Each task checkbox carries its index among the tasks marked
+ * finds in the text, so a click flips that `[ ]` / `[x]` in the underlying markdown.
+ */
+const MarkdownPreview: React.FC<MarkdownPreviewProps> = ({ content, onToggleTask, scrollRef }) => {
+  const html = useMemo(() => renderMarkdown(content, true), [content]);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (!(target instanceof HTMLInputElement) || !target.classList.contains('task-checkbox')) return;
+
+    // The text is the source of truth - the checkbox re-renders from it
+    e.preventDefault();
+    if (!onToggleTask) return;
+    const index = Number(target.dataset.task);
+    if (Number.isInteger(index)) onToggleTask(index);
+  };
+
+  return (
+    <div ref={scrollRef} className="h-full overflow-y-auto p-5 sm:p-8" onClick={handleClick}>
+      {content.trim() ? (
+        <div className="markdown-preview" dangerouslySetInnerHTML={{ __html: html }} />
+      ) : (
+        <p className="text-sm text-[var(--text-secondary)]">Nothing to preview yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default MarkdownPreview;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { RoomPage } from '../types';
+import { MAIN_PAGE_ID } from '../services/pageService';
+
+interface PagesSidebarProps {
+  pages: RoomPage[];
+  activePageId: string;
+  suggestionCounts?: Record<string, number>; // pending AI edits per page
+  readOnly?: boolean;
+  onSelect: (pageId: string) => void;
+  onCreate: (title: string) => void;
+  onRename: (pageId: string, title: string) => void;
+  onMove: (pageId: string, toIndex: number) => void;
+  onDelete: (pageId: string) => void;
+}
+
+const PagesSidebar: React.FC<PagesSidebarProps> = ({ pages, activePageId, suggestionCounts = {}, readOnly = false, onSelect, onCreate, onRename, onMove, onDelete }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+
+  const startRename = (page: RoomPage) => {
+    setRenamingId(page.id);
+    setTitle(page.title);
+  };
+
+  const commitRename = () => {
+    if (renamingId && title.trim()) onRename(renamingId, title.trim());
+    setRenamingId(null);
+  };
+
+  // The page id (and its route) is made from this first title
+  const commitCreate = () => {
+    if (newTitle.trim()) onCreate(newTitle.trim());
+    setIsCreating(false);
+    setNewTitle('');
+  };
+
+  const handleDrop = (e: React.DragEvent, toIndex: number) => {
+    e.preventDefault();
+    if (draggedId) onMove(draggedId, toIndex);
+    setDraggedId(null);
+  };
+
+  return (
+    <div className="h-full flex flex-col border-r border-[var(--border-muted)] bg-slate-50/60 dark:bg-slate-900/30">
+      <div className="px-3 pt-3 pb-1.5 text-[11px] font-bold tracking-wider text-slate-400 dark:text-slate-500 uppercase">
+        Pages
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {pages.map((page, index) => {
+          const isActive = page.id === activePageId;
+
+          if (renamingId === page.id) {
+            return (
+              <form key={page.id} className="px-2 py-1" onSubmit={(e) => { e.preventDefault(); commitRename(); }}>
+                <input
+                  autoFocus
+                  className="w-full bg-white dark:bg-slate-800 rounded-md px-2 py-1 text-sm text-[var(--text-primary)] border border-[var(--accent)] focus:outline-none"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  onFocus={(e) => e.target.select()}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => { if (e.key === 'Escape') setRenamingId(null); }}
+                />
+              </form>
+            );
+          }
+
+          return (
+            <div
+              key={page.id}
+              draggable={!readOnly}
+              onDragStart={() => setDraggedId(page.id)}
+              onDragEnd={() => setDraggedId(null)}
+              onDragOver={(e) => { if (draggedId) e.preventDefault(); }}
+              onDrop={(e) => handleDrop(e, index)}
+              className={`
+                group flex items-center gap-1 px-3 py-1.5 cursor-pointer text-sm transition-colors
+                ${isActive ? 'bg-slate-200/70 dark:bg-slate-800 text-[var(--text-primary)] font-medium' : 'text-[var(--text-secondary)] hover:bg-slate-100 dark:hover:bg-slate-800/50'}
+                ${draggedId === page.id ? 'opacity-40' : ''}
+              `}
+              onClick={() => onSelect(page.id)}
+              onDoubleClick={() => !readOnly && startRename(page)}
+              title={page.title}
+            >
+              <span className="flex-1 truncate">{page.title}</span>
+              {suggestionCounts[page.id] > 0 && (
+                <span
+                  className="text-[10px] font-bold text-white bg-[var(--accent)] rounded-full px-1.5 shrink-0"
+                  title="AI suggestions waiting for review"
+                >
+                  {suggestionCounts[page.id]}
+                </span>
+              )}
+              {!readOnly && (
+                <span className="flex items-center gap-1.5 shrink-0 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                  {index > 0 && (
+                    <button
+                      className="text-xs text-slate-400 hover:text-[var(--accent)]"
+                      title="Move up"
+                      onClick={(e) => { e.stopPropagation(); onMove(page.id, index - 1); }}
+                    >
+                      ↑
+                    </button>
+                  )}
+                  <button
+                    className="text-xs text-slate-400 hover:text-[var(--accent)]"
+                    title="Rename"
+                    onClick={(e) => { e.stopPropagation(); startRename(page); }}
+                  >
+                    ✎
+                  </button>
+                  {page.id !== MAIN_PAGE_ID && (
+                    <button
+                      className="text-xs text-slate-400 hover:text-[#a31221]"
+                      title="Delete page (kept in version history)"
+                      onClick={(e) => { e.stopPropagation(); onDelete(page.id); }}
+                    >
+                      ✕
+                    </button>
+                  )}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {!readOnly && (isCreating ? (
+        <form className="px-2 py-2 border-t border-[var(--border-muted)]" onSubmit={(e) => { e.preventDefault(); commitCreate(); }}>
+          <input
+            autoFocus
+            className="w-full bg-white dark:bg-slate-800 rounded-md px-2 py-1 text-sm text-[var(--text-primary)] border border-[var(--accent)] focus:outline-none"
+            placeholder="Page title"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            onBlur={() => { if (!newTitle.trim()) setIsCreating(false); }}
+            onKeyDown={(e) => { if (e.key === 'Escape') { setNewTitle(''); setIsCreating(false); } }}
+          />
+        </form>
+      ) : (
+        <button
+          className="text-left px-3 py-2.5 text-sm font-bold text-slate-500 dark:text-slate-400 hover:text-[var(--accent)] border-t border-[var(--border-muted)] transition-colors"
+          onClick={() => setIsCreating(true)}
+        >
+          + New page
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default PagesSidebar;
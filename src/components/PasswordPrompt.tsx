@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+
+interface PasswordPromptProps {
+  roomId: string;
+  onSubmit: (password: string) => Promise<boolean>;
+  onCancel: () => void;
+  allowViewOnly?: boolean; // room is publicly readable; the prompt only unlocks editing
+}
+
+const PasswordPrompt: React.FC<PasswordPromptProps> = ({ roomId, onSubmit, onCancel, allowViewOnly = false }) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password || isChecking) return;
+    setIsChecking(true);
+    const ok = await onSubmit(password);
+    setIsChecking(false);
+    if (!ok) {
+      setError(true);
+      setPassword('');
+    }
+  };
+
+  return (
+    <div className="h-screen flex items-center justify-center font-sans px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-white dark:bg-[var(--bg-surface)] border border-[var(--border-muted)] rounded-2xl shadow-lg p-6 space-y-4"
+      >
+        <div className="space-y-1">
+          <h2 className="text-lg font-semibold text-[var(--text-primary)]">
+            <span className="font-mono">{roomId}</span> is protected
+          </h2>
+          <p className="text-sm text-[var(--text-secondary)]">
+            {allowViewOnly ? 'Enter the password to edit this room.' : 'Enter the password to open this room.'}
+          </p>
+        </div>
+
+        <input
+          type="password"
+          autoFocus
+          className="w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-[16px] text-[var(--text-primary)] border border-transparent focus:border-[var(--accent)] focus:outline-none"
+          placeholder="Password"
+          value={password}
+          onChange={(e) => { setPassword(e.target.value); setError(false); }}
+          autoComplete="current-password"
+        />
+        {error && <p className="text-xs text-[#a31221]">Wrong password.</p>}
+
+        <div className="flex items-center justify-between">
+          <button type="button" className="text-sm font-bold text-slate-500 dark:text-slate-400 hover:text-[var(--accent)]" onClick={onCancel}>
+            {allowViewOnly ? 'Keep reading' : 'Go home'}
+          </button>
+          <button
+            type="submit"
+            disabled={!password || isChecking}
+            className="text-sm font-bold text-white bg-[var(--accent)] px-4 py-2 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-40"
+          >
+            {isChecking ? 'Checking...' : 'Unlock'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PasswordPrompt;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { ClientIdentity } from '../types';
+import { IDENTITY_COLORS, canSignIn } from '../services/identityService';
+
+interface ProfilePanelProps {
+  identity: ClientIdentity;
+  onSave: (profile: { label: string; color: string }) => Promise<void>;
+  onSendLink: (email: string) => Promise<string | null>; // resolves an error message, or null once sent
+  onSignOut: () => void;
+  onClose: () => void;
+}
+
+const ProfilePanel: React.FC<ProfilePanelProps> = ({ identity, onSave, onSendLink, onSignOut, onClose }) => {
+  const [label, setLabel] = useState(identity.label);
+  const [color, setColor] = useState(identity.color);
+  const [email, setEmail] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim() || isSaving) return;
+    setIsSaving(true);
+    await onSave({ label, color });
+    setIsSaving(false);
+  };
+
+  const handleSendLink = async () => {
+    if (!email.trim() || isSending) return;
+    setIsSending(true);
+    setError(null);
+    const failure = await onSendLink(email.trim());
+    setIsSending(false);
+    if (failure) setError(failure);
+    else setLinkSentTo(email.trim());
+  };
+
+  const inputClass = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-sm text-[var(--text-primary)] border border-transparent focus:border-[var(--accent)] focus:outline-none";
+  const labelClass = "block text-[11px] font-bold tracking-wider text-slate-400 dark:text-slate-500 mb-1.5 uppercase";
+
+  return (
+    <div
+      className="fixed inset-0 z-40 bg-black/50 backdrop-blur-sm flex items-center justify-center px-3"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-white dark:bg-[var(--bg-surface)] border border-[var(--border-muted)] rounded-2xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--border-muted)]">
+          <span className="text-base font-semibold text-[var(--text-primary)]">Your profile</span>
+          <button type="button" className="text-sm text-[var(--accent)] font-bold" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className={labelClass} htmlFor="profile-name">Display name</label>
+            <input
+              id="profile-name"
+              className={inputClass}
+              value={label}
+              maxLength={40}
+              onChange={(e) => setLabel(e.target.value)}
+              autoFocus
+            />
+            <p className="text-xs text-[var(--text-secondary)] mt-1">Shown to others in presence, chat and "last edited by".</p>
+          </div>
+
+          <div>
+            <span className={labelClass}>Color</span>
+            <div className="flex flex-wrap gap-2">
+              {IDENTITY_COLORS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  title={option}
+                  onClick={() => setColor(option)}
+                  className={`w-7 h-7 rounded-full transition-transform ${color === option ? 'ring-2 ring-offset-2 ring-[var(--text-primary)] dark:ring-offset-[var(--bg-surface)] scale-110' : 'hover:scale-110'}`}
+                  style={{ backgroundColor: option }}
+                />
+              ))}
+            </div>
+          </div>
+
+          {canSignIn && (
+            <div className="pt-3 border-t border-[var(--border-muted)]">
+              <span className={labelClass}>Account</span>
+              {identity.email ? (
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm text-[var(--text-primary)] truncate">Signed in as {identity.email}</span>
+                  <button type="button" className="text-sm font-bold text-slate-500 dark:text-slate-400 hover:text-[var(--accent)] shrink-0" onClick={onSignOut}>
+                    Sign out
+                  </button>
+                </div>
+              ) : linkSentTo ? (
+                <p className="text-sm text-[var(--text-secondary)]">
+                  Check <span className="font-medium text-[var(--text-primary)]">{linkSentTo}</span> for a sign-in link. Opening it on any device brings your name and color along.
+                </p>
+              ) : (
+                <>
+                  <div className="flex gap-2">
+                    <input
+                      type="email"
+                      className={inputClass}
+                      placeholder="you@example.com"
+                      value={email}
+                      onChange={(e) => { setEmail(e.target.value); setError(null); }}
+                      onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleSendLink(); } }}
+                    />
+                    <button
+                      type="button"
+                      className="text-sm font-bold text-[var(--accent)] shrink-0 disabled:opacity-40"
+                      disabled={!email.trim() || isSending}
+                      onClick={handleSendLink}
+                    >
+                      {isSending ? 'Sending...' : 'Email link'}
+                    </button>
+                  </div>
+                  <p className="text-xs text-[var(--text-secondary)] mt-1">Optional. Sign in to keep the same name and color on every device.</p>
+                </>
+              )}
+              {error && <p className="text-xs text-[#a31221] mt-1">{error}</p>}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end px-4 py-3 border-t border-[var(--border-muted)]">
+          <button
+            type="submit"
+            disabled={!label.trim() || isSaving}
+            className="text-sm font-bold text-white bg-[var(--accent)] px-4 py-2 rounded-lg hover:opacity-90 transition-opacity disabled:opacity-40"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ProfilePanel;
@@ -0,0 +1,106 @@
+import React, { useState, useMemo } from 'react';
+import { RoomEntry, listRooms, searchRooms, setPinned, forgetRoom } from '../services/directoryService';
+
+interface RoomDirectoryProps {
+  onOpen: (roomId: string) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Rooms visited in this browser, with pinning, removal and search
+const RoomDirectory: React.FC<RoomDirectoryProps> = ({ onOpen }) => {
+  const [rooms, setRooms] = useState<RoomEntry[]>(listRooms);
+  const [query, setQuery] = useState('');
+
+  const matches = useMemo(() => searchRooms(rooms, query), [rooms, query]);
+
+  const handlePin = (room: RoomEntry) => {
+    setPinned(room.id, !room.pinned);
+    setRooms(listRooms());
+  };
+
+  const handleRemove = (room: RoomEntry) => {
+    forgetRoom(room.id);
+    setRooms(listRooms());
+  };
+
+  if (rooms.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-3xl text-left space-y-3 pt-4">
+      <div className="flex items-center gap-3">
+        <span className="text-sm font-bold uppercase tracking-wider text-[#6b5d53] dark:text-[var(--text-secondary)] shrink-0">
+          Your rooms
+        </span>
+        <input
+          type="search"
+          placeholder="search notes and chat..."
+          className="flex-1 min-w-0 bg-transparent border-b border-[#1f1b1a]/30 dark:border-[var(--border-muted)] py-1 text-sm text-[#1f1b1a] dark:text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent)] placeholder:text-[#8c8178] dark:placeholder:text-[var(--text-secondary)]"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+
+      <ul className="border-2 border-[#1f1b1a] dark:border-[var(--border-muted)] rounded-lg overflow-hidden bg-[#fffaf0] dark:bg-[var(--bg-surface)] divide-y divide-[#1f1b1a]/15 dark:divide-[var(--border-muted)] max-h-80 overflow-y-auto">
+        {matches.length === 0 && (
+          <li className="px-4 py-3 text-sm text-[#6b5d53] dark:text-[var(--text-secondary)]">No rooms match "{query}".</li>
+        )}
+        {matches.map(({ room, snippet }) => (
+          <li key={room.id} className="group flex items-start gap-3 px-4 py-2.5 hover:bg-[#f0e7d8] dark:hover:bg-slate-800/50 transition-colors">
+            <button
+              type="button"
+              onClick={() => handlePin(room)}
+              className={`mt-0.5 text-base leading-none shrink-0 transition-colors ${room.pinned ? 'text-[var(--accent)]' : 'text-[#8c8178] dark:text-[var(--text-secondary)] hover:text-[var(--accent)]'}`}
+              title={room.pinned ? 'Unpin' : 'Pin to the top'}
+            >
+              {room.pinned ? '★' : '☆'}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => onOpen(room.id)}
+              className="flex-1 min-w-0 text-left"
+              title={room.encrypted ? 'End-to-end encrypted - open it from its link to read it' : undefined}
+            >
+              <div className="flex items-baseline gap-2 min-w-0">
+                <span className="font-bold text-[#1f1b1a] dark:text-[var(--text-primary)] truncate">
+                  {room.title || room.id}
+                </span>
+                {room.title && (
+                  <span className="text-xs text-[#8c8178] dark:text-[var(--text-secondary)] truncate">/{room.id}</span>
+                )}
+                {room.encrypted && (
+                  <span className="text-xs text-[#8c8178] dark:text-[var(--text-secondary)] shrink-0">encrypted</span>
+                )}
+              </div>
+              <div className="text-xs text-[#6b5d53] dark:text-[var(--text-secondary)] truncate">
+                {room.updatedAt > 0 && `Updated ${formatTime(room.updatedAt)}`}
+                {room.lastEditor && ` by ${room.lastEditor.label}`}
+              </div>
+              {snippet && (
+                <div className="text-xs text-[#3b342f] dark:text-[var(--text-secondary)] truncate mt-0.5">{snippet}</div>
+              )}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => handleRemove(room)}
+              className="text-xs font-bold text-[#8c8178] dark:text-[var(--text-secondary)] hover:text-[#a31221] shrink-0 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Remove from this list and delete the copy saved in this browser (the room stays online)"
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RoomDirectory;
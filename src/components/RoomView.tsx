@@ -1,24 +1,51 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import Header from './Header';
 import Editor from './Editor';
 import Chat from './Chat';
-import { RoomData, ChatMessage, MessageRole } from '../types';
-import { getRoom as getRoomLocal, saveRoom as saveRoomLocal, getClientIdentity } from '../services/storageService';
-import { streamAIResponse } from '../services/groqService';
-import { RoomSyncChannel, hasSupabase, upsertRoom, createDefaultRoom, fetchRoom } from '../services/syncService';
+import { RoomData, RoomPage, ChatMessage, MessageRole, RoomVersion, AISettings, RoomAccess, ViewMode, ClientIdentity, TextCursor, TokenUsage } from '../types';
+import { getCachedRoom, saveRoom as saveRoomLocal } from '../services/storageService';
+import { getClientIdentity, saveProfile, sendMagicLink, signOut } from '../services/identityService';
+import { markVisited } from '../services/directoryService';
+import { streamAIResponse, resolveAISettings, getContextWindow } from '../services/aiService';
+import { stripAIMention, withConversationSummary } from '../services/promptService';
+import { planPrompt, estimateTokens, formatTokens, CHARS_PER_TOKEN } from '../services/tokenService';
+import { needsSummary, updateSummary, summaryCovers } from '../services/summaryService';
+import { RoomSyncChannel, backend, createDefaultRoom, fetchRoom, mergeMessages, AI_LOCK_TIMEOUT_MS } from '../services/syncService';
+import { RoomDocument, AI_ORIGIN, TextAuthor, isAIOrigin } from '../services/crdtService';
+import { extractEditOperations, stripEditBlock, resolveOperations, groupOperationsByPage, createSuggestions, resolveSuggestions, toChange } from '../services/suggestionService';
+import { createSnapshot, isSameAsSnapshot, saveVersion, SNAPSHOT_INTERVAL_MS } from '../services/historyService';
+import { AccessLevel, resolveAccess, checkPassword, canManageAccess, rememberUnlock, isProtected } from '../services/accessService';
+import { importRoomKey, setRoomKey, generateRoomKey, isLockedRoom, hasAIConsent, grantAIConsent } from '../services/encryptionService';
+import { ExportFormat, exportRoom } from '../services/exportService';
+import { parseCommand, toAIHistory, promptFor, SlashCommand, CommandActions } from '../services/commandService';
+import { ImportedFile, ImportMode, readImportFile, bundlePages, takeQueuedImport } from '../services/importService';
+import { MAIN_PAGE_ID, listPages, getPage, setPages, updatePage, createPage, renamePage, movePage, deletePage } from '../services/pageService';
+import { InlineAction, InlineRange, getInlineAction, inlinePrompt, inlineChatMessage, inlineContext, inlineLogMessage, placeAnswer, anchorRange, resolveRange, writeRange } from '../services/inlineActionService';
+import { Passage, Citation, retrieveContext, formatRetrievedContext, linkCitations, parseCitation, getSearchOtherRooms, setSearchOtherRooms, hasOtherRooms } from '../services/retrievalService';
 
-import CursorsOverlay from './CursorsOverlay';
+import HistoryPanel from './HistoryPanel';
+import AISettingsPanel from './AISettingsPanel';
+import AccessPanel from './AccessPanel';
+import PasswordPrompt from './PasswordPrompt';
+import PagesSidebar from './PagesSidebar';
+import ImportPrompt from './ImportPrompt';
+import ProfilePanel from './ProfilePanel';
 
 interface RoomViewProps {
   roomId: string;
+  pageId?: string | null; // page from the route; the main page when missing
+  viewToken?: string | null; // token from a read-only share link
+  encryptionKey?: string | null; // end-to-end key from the URL fragment
   navigateHome: () => void;
 }
 
 interface OnlineUser {
   id: string;
+  sessionId: string; // one per tab, so the same person can show up twice
   label: string;
   isTyping: boolean;
   color: string;
+  aiLockedAt?: number; // holds the shared "AI is responding" lock
 }
 
 const WELCOME_MESSAGES = [
@@ -31,37 +58,84 @@ const WELCOME_MESSAGES = [
 
 const getRandomWelcome = () => WELCOME_MESSAGES[Math.floor(Math.random() * WELCOME_MESSAGES.length)];
 
-const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
+const AI_EDITOR = { id: 'ai', label: 'AI' };
+
+// The inline AI action writing into a page, or just done with it (one at a time)
+interface InlineEdit {
+  pageId: string;
+  action: InlineAction;
+  range: InlineRange;
+  undoMark: number; // from RoomDocument.beginInlineEdit
+  isStreaming: boolean;
+  error?: string;
+  logId?: string; // its line in the chat, marked when the action is undone
+}
+
+// How often text streamed by an inline action is written into the page (and broadcast)
+const INLINE_WRITE_INTERVAL_MS = 100;
+
+// Notes around the selection sent with an inline action
+const INLINE_CONTEXT_CHARS = 3000;
+
+// AI context selector value for "every page" (page ids are slugs, so they never clash)
+const ALL_PAGES = '*';
+
+// How long a cited passage stays highlighted after its citation is clicked
+const CITATION_HIGHLIGHT_MS = 4000;
+
+// Unique across clients, so two messages sent in the same millisecond can't collide
+const createMessageId = () => `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+
+const RoomView: React.FC<RoomViewProps> = ({ roomId, pageId = null, viewToken = null, encryptionKey = null, navigateHome }) => {
   // Core state
   const [data, setData] = useState<RoomData | null>(null);
   const [isCopied, setIsCopied] = useState(false);
   const [isAILoading, setIsAILoading] = useState(false);
   const [isSaved, setIsSaved] = useState(true);
   const [isConnected, setIsConnected] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   const [onlineUsers, setOnlineUsers] = useState<OnlineUser[]>([]);
-  const [lastEditor, setLastEditor] = useState<{ id: string; label: string } | null>(null);
-
-  // Live cursor positions (from Broadcast)
-  // Map<userId, {x, y, lastUpdate}>
-  const [cursorPositions, setCursorPositions] = useState<Record<string, { x: number; y: number }>>({});
-
-  // Combine online users with their cursor positions
-  const cursors = onlineUsers
-    .filter(u => cursorPositions[u.id]) // Only users with known position
-    .map(u => ({
-      id: u.id,
-      label: u.label,
-      color: u.color,
-      x: cursorPositions[u.id].x,
-      y: cursorPositions[u.id].y
-    }));
+  const [lastEditors, setLastEditors] = useState<Record<string, { id: string; label: string }>>({}); // by page id
+
+  // Page shown in the notes pane (unknown or deleted pages fall back to the main page),
+  // and the page the AI reads: null for the open page, ALL_PAGES, or a page id
+  const activePageId = data && pageId && getPage(data, pageId) ? pageId : MAIN_PAGE_ID;
+  const [aiContextId, setAIContextId] = useState<string | null>(null);
+  const [searchOtherRooms, setSearchOtherRoomsState] = useState<boolean>(getSearchOtherRooms);
+  const canSearchOtherRooms = useMemo(() => hasOtherRooms(roomId), [roomId]);
+
+  // The passage highlighted in the notes after a citation in an answer was clicked
+  const [activeCitation, setActiveCitation] = useState<(Citation & { shownAt: number }) | null>(null);
+
+  const [inlineEdit, setInlineEdit] = useState<InlineEdit | null>(null);
+
+  // Access control: null while checking, bumped nonce re-runs the check after unlocking
+  const [accessLevel, setAccessLevel] = useState<AccessLevel | null>(null);
+  const [accessNonce, setAccessNonce] = useState(0);
+  const [isUnlockPromptOpen, setIsUnlockPromptOpen] = useState(false);
+  const isReadOnly = accessLevel === 'view';
+
+  // End-to-end encryption: set when the room can't be decrypted with the key we have
+  const [keyError, setKeyError] = useState<'missing' | 'invalid' | null>(null);
+  const [isAIAllowed, setIsAIAllowed] = useState(true);
+
+  // Where others are in the notes (from Broadcast), by user id
+  const [remoteCursors, setRemoteCursors] = useState<Record<string, TextCursor>>({});
 
   // UI state
-  const [isNotesOpen, setIsNotesOpen] = useState(false);
+  const [isNotesOpen, setIsNotesOpen] = useState(Boolean(pageId));
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isAISettingsOpen, setIsAISettingsOpen] = useState(false);
+  const [isAccessOpen, setIsAccessOpen] = useState(false);
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const [importPrompt, setImportPrompt] = useState<{ file: ImportedFile | null; error?: string } | null>(null);
   const [noteWidth, setNoteWidth] = useState<number>(0.35);
   const [isDark, setIsDark] = useState<boolean>(() => localStorage.getItem('padai_theme') === 'dark');
+  const [notesView, setNotesView] = useState<ViewMode>(() => (localStorage.getItem('padai_notes_view') as ViewMode) || 'editor');
   const [accent, setAccent] = useState<string>('');
-  const [clientColor, setClientColor] = useState<string>('#000000'); // Store our color
+  const [identity, setIdentity] = useState<ClientIdentity>(getClientIdentity); // name / color shown to others
   const [isMobile, setIsMobile] = useState<boolean>(() => window.innerWidth < 640);
 
   // Refs
@@ -72,32 +146,106 @@ const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
   
   // Sync refs
   const syncChannelRef = useRef<RoomSyncChannel | null>(null);
+  const pageDocsRef = useRef<Map<string, { doc: RoomDocument; close: () => void }>>(new Map());
   const isTypingRef = useRef<boolean>(false);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Helper to generate consistent color from ID
-  const getClientColor = (id: string) => {
-    const colors = [
-      '#ef4444', '#f97316', '#f59e0b', '#84cc16', '#10b981', '#06b6d4', '#0ea5e9', '#3b82f6', '#6366f1', '#8b5cf6', '#d946ef', '#ec4899'
-    ];
-    let hash = 0;
-    for (let i = 0; i < id.length; i++) {
-      hash = id.charCodeAt(i) + ((hash << 5) - hash);
-    }
-    return colors[Math.abs(hash) % colors.length];
+  // Aborts our own streaming AI answer
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const isSummarizingRef = useRef(false); // a conversation summary update is running
+
+  // AI answers streaming in from other clients: message id -> requesting client
+  const remoteStreamsRef = useRef<Map<string, string>>(new Map());
+
+  // History refs
+  const dataRef = useRef<RoomData | null>(null);
+  const lastSnapshotRef = useRef<RoomVersion | null>(null);
+  const hasUnsnapshottedChangesRef = useRef<boolean>(false);
+
+  // Room fetched before the password prompt, used to check the password
+  const lockedRoomRef = useRef<RoomData | null>(null);
+
+  // ==================== PAGE DOCUMENTS ====================
+  // Each page has its own CRDT document, opened the first time we see the page
+  const getPageDoc = (id: string): RoomDocument | null => pageDocsRef.current.get(id)?.doc ?? null;
+
+  // What our edits are credited with in the blame view
+  const currentAuthor = (): TextAuthor => {
+    const { id, label, color } = getClientIdentity();
+    return { id, label, color };
+  };
+
+  const openPageDoc = (page: RoomPage): RoomDocument => {
+    const doc = new RoomDocument();
+    doc.load(page.docState, page.content);
+    doc.setAuthor(currentAuthor());
+
+    // Forward our own edits to everyone else as incremental updates
+    const unsubscribeDocUpdates = doc.onUpdate((update, isLocal, origin) => {
+      if (isLocal) syncChannelRef.current?.broadcastDocUpdate(update, isAIOrigin(origin) ? AI_EDITOR : undefined, page.id);
+    });
+
+    // Reflect merged remote edits in the textarea
+    const unsubscribeTextChanges = doc.onTextChange((content, isLocal) => {
+      if (isLocal) return;
+      setData(prev => {
+        if (!prev) return prev;
+        const updated = updatePage(prev, page.id, { content, docState: doc.encodeState() });
+        saveRoomLocal(updated);
+        return updated;
+      });
+    });
+
+    pageDocsRef.current.set(page.id, {
+      doc,
+      close: () => {
+        unsubscribeDocUpdates();
+        unsubscribeTextChanges();
+        doc.destroy();
+      },
+    });
+    return doc;
+  };
+
+  // Close the documents of every page not in `keep` (all of them when omitted)
+  const closePageDocs = (keep?: Set<string>) => {
+    pageDocsRef.current.forEach((entry, id) => {
+      if (keep?.has(id)) return;
+      entry.close();
+      pageDocsRef.current.delete(id);
+    });
+  };
+
+  // Merge every page of a persisted room into our documents, opening new pages and closing deleted ones.
+  // `isBehind` is set if the room is missing edits we hold (another client overwrote the row first).
+  const mergePageDocs = (room: RoomData): { room: RoomData; isBehind: boolean } => {
+    let isBehind = false;
+    const pages = listPages(room).map(page => {
+      let doc = getPageDoc(page.id);
+      if (!doc) {
+        doc = openPageDoc(page);
+      } else if (page.docState) {
+        // Safe while typing, the CRDT keeps both sides
+        doc.applyRemoteUpdate(page.docState);
+        isBehind = isBehind || doc.hasChangesMissingFrom(page.docState, page.content);
+      } else if (!isTypingRef.current) {
+        // Row written by a client without CRDT support - adopt its text as an edit
+        doc.applyLocalChange(page.content);
+      }
+      return { ...page, content: doc.toString(), docState: doc.encodeState() };
+    });
+    closePageDocs(new Set(pages.map(page => page.id)));
+    return { room: setPages(room, pages), isBehind };
   };
 
   // ==================== INITIALIZATION ====================
   useEffect(() => {
-    const { id, label } = getClientIdentity();
+    const { id, label, color: myColor } = getClientIdentity();
     clientIdRef.current = id;
     clientLabelRef.current = label;
-    
-    // Generate and set our color
-    const myColor = getClientColor(id);
-    setClientColor(myColor);
 
-    console.info("[noteai] Init", { roomId, clientId: id, hasSupabase });
+    console.info("[noteai] Init", { roomId, clientId: id, backend: backend.name });
+    markVisited(roomId);
 
     // Accent color
     const existingAccent = localStorage.getItem('padai_accent');
@@ -112,112 +260,348 @@ const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
       document.documentElement.style.setProperty('--accent', pick);
     }
 
+    let cancelled = false;
+
+    // Returns false if the room is encrypted and we can't read it
+    const checkKey = (room: RoomData | null): boolean => {
+      if (!isLockedRoom(room)) return true;
+      setKeyError(encryptionKey ? 'invalid' : 'missing');
+      console.info("[noteai] 🔐 Room is end-to-end encrypted and the key is missing or wrong");
+      return false;
+    };
+
+    // Returns false if the room needs a password before we may connect
+    const checkAccess = async (room: RoomData | null): Promise<boolean> => {
+      const level = await resolveAccess(room, viewToken);
+      if (cancelled) return false;
+      setAccessLevel(level);
+      if (level === 'locked') {
+        lockedRoomRef.current = room;
+        console.info("[noteai] 🔒 Room is password protected");
+        return false;
+      }
+      return true;
+    };
+
+    // Another client changed the password / mode - check again
+    const hasAccessChanged = (incoming?: RoomAccess) => {
+      const current = dataRef.current?.access;
+      return (incoming?.mode || 'open') !== (current?.mode || 'open') || incoming?.secretHash !== current?.secretHash;
+    };
+
     const init = async () => {
-      if (hasSupabase) {
-        // Create sync channel
-        const syncChannel = new RoomSyncChannel(
-          roomId,
-          id,
-          label,
-          myColor,
-          {
-            // Called when room data changes (from database)
-            onRoomUpdate: (incomingRoom, isRemote) => {
-              if (!isRemote) return;
-              
-              console.info("[noteai] 📥 Remote update received");
-              
-              // Only update if we're not actively typing
-              if (!isTypingRef.current) {
-                setData(prev => {
-                  if (!prev) return incomingRoom;
-                  
-                  // Keep our streaming AI message if we have one
-                  const ourStreamingMsg = prev.messages.find(m => m.isStreaming);
-                  if (ourStreamingMsg) {
-                    const otherMsgs = incomingRoom.messages.filter(m => !m.isStreaming);
-                    return { 
-                      ...incomingRoom, 
-                      messages: [...otherMsgs, ourStreamingMsg] 
-                    };
-                  }
-                  
-                  return incomingRoom;
-                });
-                // Use the actual last editor from the room data if available
-                if (incomingRoom.lastEditor) {
-                  setLastEditor(incomingRoom.lastEditor);
-                } else {
-                  setLastEditor({ id: 'remote', label: 'Someone' });
-                }
-              } else {
-                console.info("[noteai] Skipping update - user is typing");
-              }
-            },
+      setKeyError(null);
+      try {
+        setRoomKey(roomId, encryptionKey ? await importRoomKey(encryptionKey) : null);
+      } catch (e) {
+        console.warn("[noteai] Invalid room key in link", e);
+        setKeyError('invalid');
+        return;
+      }
+      if (cancelled) return;
+      setIsAIAllowed(hasAIConsent(roomId));
+
+      // Check the key and password before subscribing to anything.
+      // Offline, fall back to the copy cached by the last visit.
+      let existing: RoomData | null;
+      try {
+        existing = await fetchRoom(roomId);
+      } catch {
+        existing = await getCachedRoom(roomId);
+        console.info("[noteai] 📴 Offline - opening the cached copy");
+      }
+      if (!checkKey(existing) || !(await checkAccess(existing))) return;
 
-            // Presence updates
-            onPresenceUpdate: (users) => {
-              setOnlineUsers(users.filter(u => u.id !== id));
-            },
+      // Create sync channel
+      const syncChannel = new RoomSyncChannel(
+        roomId,
+        id,
+        label,
+        myColor,
+        {
+          // Called when room data changes (from database)
+          onRoomUpdate: (incomingRoom, isRemote) => {
+            if (!isRemote) return;
             
-            // Live Cursor Broadcasts
-            onCursorMove: (userId, x, y) => {
-              setCursorPositions(prev => ({
-                ...prev,
-                [userId]: { x, y }
-              }));
-            },
-
-            // Connection status
-            onConnectionChange: (status) => {
-              setIsConnected(status === 'connected');
-              console.info("[noteai] Connection:", status);
-            },
-          }
-        );
-
-        syncChannelRef.current = syncChannel;
-
-        // Connect and get initial data
-        let room = await syncChannel.connect();
-
-        if (!room) {
-          // Create new room
-          const welcomeMsg: ChatMessage = {
-            id: "welcome-msg",
-            role: MessageRole.MODEL,
-            text: getRandomWelcome(),
-            senderId: "ai",
-            senderLabel: "AI",
-            timestamp: Date.now()
-          };
-          room = createDefaultRoom(roomId, welcomeMsg);
-          await upsertRoom(room);
-          console.info("[noteai] Created new room");
+            console.info("[noteai] 📥 Remote update received");
+
+            // Encryption was turned on (or the key changed) elsewhere - start over
+            if (hasAccessChanged(incomingRoom.access) || isLockedRoom(incomingRoom)) {
+              setAccessNonce(n => n + 1);
+              return;
+            }
+
+            // Merge the persisted state of every page
+            const { room: mergedRoom, isBehind: rowIsBehind } = mergePageDocs(incomingRoom);
+
+            setData(prev => {
+              // Chat arrives separately through onMessage, so keep the messages we have
+              const merged = { ...mergedRoom, messages: prev?.messages ?? [] };
+
+              // Another client overwrote the row before merging our edits - persist the merge
+              if (rowIsBehind) {
+                syncChannelRef.current?.scheduleSave(merged);
+              }
+
+              return merged;
+            });
+            // Use the actual last editors from the room data if available
+            setLastEditors(prev => {
+              const next = { ...prev, [MAIN_PAGE_ID]: incomingRoom.lastEditor || { id: 'remote', label: 'Someone' } };
+              listPages(incomingRoom).forEach(page => {
+                if (page.id !== MAIN_PAGE_ID && page.lastEditor) next[page.id] = page.lastEditor;
+              });
+              return next;
+            });
+          },
+
+          // Incremental CRDT edits from other clients, one page at a time.
+          // A page we haven't seen yet gets its title when the row update arrives.
+          onDocUpdate: (update, editor, updatedPageId) => {
+            const doc = getPageDoc(updatedPageId) ?? openPageDoc({ id: updatedPageId, title: '', content: '' });
+            doc.applyRemoteUpdate(update);
+            setLastEditors(prev => ({ ...prev, [updatedPageId]: editor }));
+          },
+
+          // Chat messages (our own inserts echo back with their seq)
+          onMessage: (message) => {
+            setData(prev => prev ? { ...prev, messages: mergeMessages(prev.messages, [message]) } : prev);
+          },
+
+          // Whole chat cleared, or only `ids` (a conversation branched by editing a message)
+          onMessagesCleared: (ids) => {
+            setData(prev => prev
+              ? { ...prev, messages: prev.messages.filter(m => (ids ? !ids.includes(m.id) : m.isStreaming)) }
+              : prev);
+          },
+
+          // Partial AI answers requested by someone else
+          onAIStream: (message, sessionId) => {
+            if (message.isStreaming) remoteStreamsRef.current.set(message.id, sessionId);
+            else remoteStreamsRef.current.delete(message.id);
+
+            setData(prev => {
+              if (!prev) return prev;
+              // Chunks that arrive after the stored row are stale (a regenerated answer restarts the clock)
+              const existing = prev.messages.find(m => m.id === message.id);
+              if (existing && !existing.isStreaming && existing.timestamp >= message.timestamp) return prev;
+              return { ...prev, messages: mergeMessages(prev.messages, [{ ...message, seq: existing?.seq }]) };
+            });
+          },
+
+          // Presence updates
+          onPresenceUpdate: (users) => {
+            setOnlineUsers(users.filter(u => u.sessionId !== syncChannelRef.current?.sessionId));
+
+            // Drop half-streamed answers whose requester left or gave up the lock
+            const holders = new Set(users.filter(u => u.aiLockedAt).map(u => u.sessionId));
+            const orphaned = Array.from(remoteStreamsRef.current)
+              .filter(([, sessionId]) => !holders.has(sessionId))
+              .map(([messageId]) => messageId);
+            if (orphaned.length > 0) {
+              orphaned.forEach(messageId => remoteStreamsRef.current.delete(messageId));
+              setData(prev => prev
+                ? { ...prev, messages: prev.messages.filter(m => !(m.isStreaming && orphaned.includes(m.id))) }
+                : prev);
+            }
+          },
+          
+          // Live Cursor Broadcasts
+          onCursorMove: (sessionId, cursor) => {
+            setRemoteCursors(prev => ({ ...prev, [sessionId]: cursor }));
+          },
+
+          // Connection status
+          onConnectionChange: (status) => {
+            setIsConnected(status === 'connected');
+            console.info("[noteai] Connection:", status);
+          },
+
+          // Saves waiting to be replayed after going offline
+          onPendingChange: setPendingChanges,
         }
+      );
 
-        setData(room);
-        saveRoomLocal(room);
-        setIsSaved(true);
+      syncChannelRef.current = syncChannel;
 
-      } else {
-        // Local-only mode
-        const room = getRoomLocal(roomId);
-        setData(room);
-        setIsSaved(true);
-        console.info("[noteai] Running in local-only mode");
+      // Connect and get initial data (the prefetched / cached copy if we're offline)
+      let room = (await syncChannel.connect()) ?? existing;
+      if (cancelled) {
+        syncChannel.disconnect();
+        return;
       }
+
+      if (!room) {
+        // Create new room
+        const welcomeMsg: ChatMessage = {
+          id: "welcome-msg",
+          role: MessageRole.MODEL,
+          text: getRandomWelcome(),
+          senderId: "ai",
+          senderLabel: "AI",
+          timestamp: Date.now()
+        };
+        room = createDefaultRoom(roomId, welcomeMsg);
+        room.access = { mode: 'open', ownerId: id };
+        await syncChannel.immediateSave(room);
+        await syncChannel.sendMessages(room.messages);
+        console.info("[noteai] Created new room");
+      }
+
+      room = mergePageDocs(room).room;
+
+      setData(room);
+      setHasOlderMessages(syncChannel.hasOlderMessages);
+      saveRoomLocal(room);
+      setIsSaved(true);
     };
 
     init();
 
     return () => {
+      cancelled = true;
+      abortControllerRef.current?.abort();
+      remoteStreamsRef.current.clear();
       syncChannelRef.current?.disconnect();
+      syncChannelRef.current = null;
+      closePageDocs();
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current);
       }
     };
-  }, [roomId]);
+  }, [roomId, viewToken, encryptionKey, accessNonce]);
+
+  // ==================== ACCESS ====================
+  const handleUnlock = async (password: string): Promise<boolean> => {
+    const room = lockedRoomRef.current || dataRef.current;
+    if (!room || !(await checkPassword(room, password))) return false;
+    setIsUnlockPromptOpen(false);
+    setData(null);
+    setAccessNonce(n => n + 1);
+    return true;
+  };
+
+  const handleSaveAccess = (access: RoomAccess, passwordKey?: string) => {
+    if (!data) return;
+    // The owner stays unlocked after setting or changing the password
+    if (access.secretHash && passwordKey) rememberUnlock(roomId, passwordKey);
+    const updated = { ...data, access };
+    setData(updated);
+    saveRoomLocal(updated);
+    syncChannelRef.current?.immediateSave(updated);
+    setIsAccessOpen(false);
+  };
+
+  // ==================== ENCRYPTION ====================
+  // Re-saves the room sealed with a fresh key, then reopens it from the keyed link
+  // Seals the room and re-sends the whole chat sealed, so the stored messages (kept in place by id)
+  // don't stay readable on the server. Earlier history snapshots can't be rewritten and stay as they are.
+  const handleEnableEncryption = async () => {
+    if (!data) return;
+    const chat = await loadFullChat();
+    if (!chat.isComplete) throw new Error('The earlier chat could not be loaded to encrypt it. Try again when online.');
+    const { key, encoded } = await generateRoomKey();
+    setRoomKey(roomId, key);
+    const updated = { ...data, encrypted: true };
+    await saveRoomLocal(updated);
+    await syncChannelRef.current?.immediateSave(updated);
+    await syncChannelRef.current?.sendMessages(chat.messages);
+    setIsAccessOpen(false);
+    window.location.hash = `/${roomId}?key=${encoded}`;
+  };
+
+  const handleAllowAI = () => {
+    grantAIConsent(roomId);
+    setIsAIAllowed(true);
+  };
+
+  // ==================== VERSION HISTORY ====================
+  useEffect(() => {
+    dataRef.current = data;
+  }, [data]);
+
+  // Only the latest page of chat is loaded on connect; snapshots and the JSON export need all of it.
+  // Whatever was fetched is kept in the room; `isComplete` is false if some pages couldn't be.
+  const loadFullChat = useCallback(async (): Promise<{ messages: ChatMessage[]; isComplete: boolean }> => {
+    const channel = syncChannelRef.current;
+    let messages = dataRef.current?.messages ?? [];
+    if (!channel?.hasOlderMessages) return { messages, isComplete: true };
+
+    try {
+      while (channel.hasOlderMessages) {
+        const oldestSeq = messages.find(m => m.seq !== undefined)?.seq;
+        if (oldestSeq === undefined) break;
+        messages = mergeMessages(messages, await channel.loadOlderMessages(oldestSeq));
+      }
+    } catch (e) {
+      console.warn("[noteai] Could not load the full chat", e);
+    }
+    setData(prev => prev ? { ...prev, messages: mergeMessages(messages, prev.messages) } : prev);
+    setHasOlderMessages(channel.hasOlderMessages);
+    return { messages, isComplete: !channel.hasOlderMessages };
+  }, []);
+
+  // Snapshots carry the whole chat, since restoring one replaces every stored message.
+  // False (and nothing saved) when the older chat can't be loaded.
+  const takeSnapshot = useCallback(async (reason: string, room?: RoomData | null): Promise<boolean> => {
+    const chat = await loadFullChat();
+    if (!chat.isComplete) return false;
+    const current = room ?? dataRef.current;
+    if (!current) return true;
+    const target = { ...current, messages: mergeMessages(chat.messages, current.messages) };
+    if (isSameAsSnapshot(target, lastSnapshotRef.current)) return true;
+
+    const version = createSnapshot(target, reason);
+    lastSnapshotRef.current = version;
+    hasUnsnapshottedChangesRef.current = false;
+    await saveVersion(version);
+    console.info("[noteai] 🕓 Snapshot saved:", reason);
+    return true;
+  }, [loadFullChat]);
+
+  // Periodic snapshots - only the clients that actually edited take one
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (hasUnsnapshottedChangesRef.current) {
+        takeSnapshot('Auto-save');
+      }
+    }, SNAPSHOT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [roomId, takeSnapshot]);
+
+  const handleRestoreVersion = async (version: RoomVersion) => {
+    if (!data) return;
+
+    // Keep the state we're replacing, so a restore can itself be undone
+    if (!(await takeSnapshot('Before restore', data))) return;
+
+    const mainPage = listPages(data).find(p => p.id === MAIN_PAGE_ID)!;
+    replaceRoomContent(data, version.pages ?? [{ ...mainPage, content: version.content }], version.messages);
+    setIsHistoryOpen(false);
+  };
+
+  // Writes a page's text as a regular CRDT edit, so it merges for everyone
+  const writePageText = (page: RoomPage): RoomPage => {
+    const doc = getPageDoc(page.id) ?? openPageDoc({ id: page.id, title: page.title, content: '' });
+    doc.applyLocalChange(page.content);
+    const editor = { id: clientIdRef.current, label: clientLabelRef.current };
+    return { ...page, content: doc.toString(), docState: doc.encodeState(), lastEditor: editor };
+  };
+
+  // Puts `pages` and `messages` in place of the room's (restore, import).
+  // Missing pages come back; pages not in the list are kept.
+  const replaceRoomContent = (room: RoomData, newPages: RoomPage[], messages: ChatMessage[]) => {
+    const currentPages = listPages(room);
+    const pages = [
+      ...newPages.map(writePageText),
+      ...currentPages.filter(page => !newPages.some(p => p.id === page.id)),
+    ];
+    const replaced: RoomData = { ...setPages(room, pages), messages };
+    setData(replaced);
+    saveRoomLocal(replaced);
+    syncChannelRef.current?.immediateSave(replaced);
+    syncChannelRef.current?.replaceMessages(messages);
+  };
 
   // ==================== THEME ====================
   useEffect(() => {
@@ -230,6 +614,10 @@ const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
     }
   }, [isDark]);
 
+  useEffect(() => {
+    localStorage.setItem('padai_notes_view', notesView);
+  }, [notesView]);
+
   // ==================== MOBILE DETECTION ====================
   useEffect(() => {
     const handler = () => setIsMobile(window.innerWidth < 640);
@@ -270,15 +658,97 @@ const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
 
   // ==================== COPY LINK ====================
   const handleCopyLink = () => {
-    const url = `${window.location.origin}/#/${roomId}`;
+    const url = `${window.location.origin}/#/${roomId}${activePageId === MAIN_PAGE_ID ? '' : `/${activePageId}`}${encryptionKey ? `?key=${encryptionKey}` : ''}`;
     navigator.clipboard.writeText(url).then(() => {
       setIsCopied(true);
       setTimeout(() => setIsCopied(false), 2000);
     });
   };
 
+  // ==================== EXPORT ====================
+  // The JSON bundle carries the whole transcript, so any chat not loaded yet is fetched first
+  const handleExport = async (format: ExportFormat) => {
+    const current = dataRef.current;
+    if (!current) return;
+
+    if (format !== 'json') {
+      exportRoom(current, format);
+      return;
+    }
+    const { messages } = await loadFullChat();
+    exportRoom({ ...current, messages }, format);
+  };
+
+  // ==================== IMPORT ====================
+  const handleImportFile = async (file: File) => {
+    if (isReadOnly) return;
+    try {
+      offerImport(await readImportFile(file));
+    } catch (e) {
+      setImportPrompt({ file: null, error: e instanceof Error ? e.message : 'This file could not be imported.' });
+    }
+  };
+
+  // Lands straight away where there is nothing to overwrite, otherwise asks how
+  const offerImport = (imported: ImportedFile) => {
+    const current = dataRef.current;
+    if (!current) return;
+    const isEmpty = imported.kind === 'bundle'
+      ? listPages(current).every(page => !page.content.trim()) && !current.messages.some(m => m.role !== MessageRole.MODEL)
+      : !getPage(current, activePageId)?.content.trim();
+    if (isEmpty) applyImport(imported, 'replace');
+    else setImportPrompt({ file: imported });
+  };
+
+  const applyImport = async (imported: ImportedFile, mode: ImportMode) => {
+    setImportPrompt(null);
+    const current = dataRef.current;
+    if (!current || isReadOnly) return;
+
+    if (imported.kind === 'document') {
+      if (mode === 'new-page') {
+        const { room, page } = createPage(current, imported.title);
+        savePages(updatePage(room, page.id, writePageText({ ...page, content: imported.content })));
+        openPage(page.id);
+        return;
+      }
+      const existing = getPage(current, activePageId)?.content ?? '';
+      if (mode === 'replace' && existing.trim()) await takeSnapshot('Before import', current);
+      const text = mode === 'append' && existing.trim()
+        ? `${existing.replace(/\s+$/, '')}\n\n${imported.content}`
+        : imported.content;
+      handleContentChange(activePageId, text);
+      return;
+    }
+
+    const bundle = imported.room;
+    if (mode === 'replace') {
+      if (!(await takeSnapshot('Before import', current))) return;
+      replaceRoomContent(current, bundlePages(bundle), bundle.messages);
+      return;
+    }
+
+    // Append: the bundle's pages become new pages, its chat goes after ours
+    let room = current;
+    bundlePages(bundle).filter(page => page.content.trim()).forEach(bundlePage => {
+      const { room: withPage, page } = createPage(room, bundlePage.title);
+      room = updatePage(withPage, page.id, writePageText({ ...page, content: bundlePage.content }));
+    });
+    const messages = bundle.messages.filter(m => !room.messages.some(existing => existing.id === m.id));
+    savePages({ ...room, messages: mergeMessages(room.messages, messages) });
+    syncChannelRef.current?.sendMessages(messages);
+  };
+
+  // A file picked on the home page waits for its room to load
+  const isLoaded = data !== null && accessLevel !== null;
+  useEffect(() => {
+    if (!isLoaded || isReadOnly) return;
+    const queued = takeQueuedImport(roomId);
+    if (queued) offerImport(queued);
+  }, [isLoaded, isReadOnly, roomId]);
+
   // ==================== CONTENT CHANGE ====================
-  const handleContentChange = useCallback((newContent: string) => {
+  const handleContentChange = useCallback((editedPageId: string, newContent: string) => {
     // Mark as typing
     isTypingRef.current = true;
     syncChannelRef.current?.updatePresence(true);
@@ -292,11 +762,20 @@ const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
       syncChannelRef.current?.updatePresence(false);
     }, 2000);
 
+    // Apply as a CRDT edit (broadcast to others via the doc update listener)
+    const doc = getPageDoc(editedPageId);
+    if (!doc || !doc.applyLocalChange(newContent)) return;
+    hasUnsnapshottedChangesRef.current = true;
+
     // Update local state
     setIsSaved(false);
     setData(prev => {
       if (!prev) return null;
-      const updated = { ...prev, content: newContent };
+      const updated = updatePage(prev, editedPageId, {
+        content: doc.toString(),
+        docState: doc.encodeState(),
+        lastEditor: { id: clientIdRef.current, label: clientLabelRef.current },
+      });
       
       // Save to local storage immediately
       saveRoomLocal(updated);
@@ -311,33 +790,33 @@ const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
   }, []);
 
   // ==================== CHAT MESSAGE HANDLING ====================
-  const handleSendMessage = async (text: string) => {
-    if (!data) return;
-
-    const userMsg: ChatMessage = {
-      id: Date.now().toString(),
-      role: MessageRole.USER,
-      text,
-      timestamp: Date.now(),
-      senderId: clientIdRef.current,
-      senderLabel: clientLabelRef.current || 'Guest'
-    };
+  // One answer at a time for the whole room
+  const claimAI = async (): Promise<boolean> => {
+    const channel = syncChannelRef.current;
+    if (channel && !(await channel.claimAILock())) {
+      console.info("[noteai] 🔒 The AI is already answering someone else");
+      return false;
+    }
+    return true;
+  };
 
-    // Add user message
-    const withUserMsg: RoomData = { 
-      ...data, 
-      messages: [...data.messages, userMsg] 
-    };
-    setData(withUserMsg);
+  // Pages the AI reads: the open page, unless the chat's context selector picked another one (or all)
+  const getContextPages = (room: RoomData): RoomPage[] => {
+    const pages = listPages(room);
+    if (aiContextId === ALL_PAGES) return pages;
+    return [pages.find(page => page.id === (aiContextId ?? activePageId)) ?? pages[0]];
+  };
 
-    // SAVE IMMEDIATELY so other devices see the message
-    console.info("[noteai] 📤 Saving message to sync...");
-    await syncChannelRef.current?.immediateSave(withUserMsg);
-    
+  // Streams an answer to `prompt` into a new AI message, or into `replaceId` when regenerating.
+  // The caller must hold the AI lock; it is released here.
+  const respond = async (history: ChatMessage[], prompt: string, room: RoomData, replaceId?: string) => {
     setIsAILoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const contextPages = getContextPages(room);
 
     // AI placeholder
-    const aiMsgId = (Date.now() + 1).toString();
+    const aiMsgId = replaceId || createMessageId();
     const placeholderAiMsg: ChatMessage = {
       id: aiMsgId,
       role: MessageRole.MODEL,
@@ -348,45 +827,620 @@ const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
       senderLabel: "AI"
     };
 
-    setData(prev => prev ? { ...prev, messages: [...prev.messages, placeholderAiMsg] } : null);
+    // A regenerated answer keeps its place (and seq) in the conversation
+    setData(prev => {
+      if (!prev) return null;
+      const messages = replaceId
+        ? prev.messages.map(m => (m.id === replaceId ? { ...placeholderAiMsg, seq: m.seq } : m))
+        : [...prev.messages, placeholderAiMsg];
+      return { ...prev, messages };
+    });
 
-    // Stream AI response
-    await streamAIResponse(
-      withUserMsg.messages,
-      withUserMsg.content,
-      text,
-      (chunkText) => {
-        setData(prev => {
-          if (!prev) return null;
-          return {
-            ...prev,
-            messages: prev.messages.map(m => 
-              m.id === aiMsgId ? { ...m, text: chunkText } : m
-            )
-          };
-        });
+    // Stream AI response - locally and to everyone in the room
+    const settings = resolveAISettings(room.aiSettings);
+    const contextWindow = getContextWindow(settings);
+    const aiHistory = toAIHistory(history);
+    // The question and the reserved answer first, then recent history; the notes get what's left
+    const budget = planPrompt(contextWindow, settings.maxTokens, aiHistory, prompt);
+    let fullText: string;
+    let passages: Passage[] = [];
+    let usage: TokenUsage | undefined;
+    try {
+      if (!budget) throw new Error("The prompt doesn't fit the context window");
+      const summary = room.chatSummary?.text;
+
+      // Only the passages (and older messages) that matter for this question, numbered for citations.
+      // Anchors keep a citation on its text while the page is edited afterwards.
+      const retrieved = await retrieveContext(prompt, roomId, contextPages, aiHistory, {
+        searchOtherRooms: searchOtherRooms && canSearchOtherRooms,
+        signal: controller.signal,
+        budgetChars: (budget.contextTokens - estimateTokens(summary ?? '')) * CHARS_PER_TOKEN,
+      });
+      passages = retrieved.passages.map(passage => {
+        const doc = passage.roomId === roomId ? getPageDoc(passage.pageId) : null;
+        return doc ? { ...passage, fromAnchor: doc.createAnchor(passage.from), toAnchor: doc.createAnchor(passage.to, -1) } : passage;
+      });
+      if (retrieved.truncated) {
+        console.warn(`[noteai] Notes truncated to fit the context window: ${retrieved.truncated.sent} of ${retrieved.truncated.total} passages`);
       }
-    );
 
+      const context = withConversationSummary(formatRetrievedContext({ ...retrieved, passages }), summary);
+      usage = { input: budget.fixedTokens + estimateTokens(context), output: 0, window: contextWindow, estimated: true, truncated: retrieved.truncated };
+
+      fullText = await streamAIResponse(
+        budget.history,
+        context,
+        prompt,
+        (chunkText) => {
+          const visibleText = stripEditBlock(chunkText);
+          setData(prev => {
+            if (!prev) return null;
+            return {
+              ...prev,
+              messages: prev.messages.map(m => 
+                m.id === aiMsgId ? { ...m, text: visibleText } : m
+              )
+            };
+          });
+          syncChannelRef.current?.streamAIMessage({ ...placeholderAiMsg, text: visibleText });
+        },
+        settings,
+        controller.signal,
+        (reported) => {
+          usage = { ...usage!, ...reported, estimated: false };
+        }
+      );
+      if (usage.estimated) usage.output = estimateTokens(fullText);
+    } catch (e) {
+      console.error("[noteai] AI response failed", e);
+      fullText = controller.signal.aborted
+        ? ""
+        : !budget
+        ? `Error: This message doesn't fit the model's ${formatTokens(contextWindow)}-token context window next to the ${formatTokens(settings.maxTokens)} tokens reserved for the answer. Shorten it, lower "Max tokens" or pick a model with a larger window in AI settings.`
+        : "Sorry, something went wrong while answering.";
+    }
+
+    const wasStopped = controller.signal.aborted;
+    abortControllerRef.current = null;
     setIsAILoading(false);
 
-    // Finalize AI message and save
+    // Pull out any structured edits and turn them into reviewable suggestions on the pages they target
+    // (a stopped answer's edit block is incomplete, so it never yields any)
+    const { operations, text: answerText } = extractEditOperations(fullText);
+    const replyText = linkCitations(answerText, passages);
+    const defaultPageId = contextPages.some(page => page.id === activePageId) ? activePageId : contextPages[0].id;
+    const newSuggestions = Array.from(groupOperationsByPage(contextPages, operations, defaultPageId)).flatMap(([targetPageId, pageOperations]) => {
+      const doc = getPageDoc(targetPageId);
+      return doc ? createSuggestions(doc, resolveOperations(doc.toString(), pageOperations), aiMsgId, targetPageId) : [];
+    });
+    let finalText = newSuggestions.length > 0
+      ? `${replyText}\n\n_Suggested ${newSuggestions.length} ${newSuggestions.length === 1 ? 'edit' : 'edits'} to the notes — review them in Notes._`
+      : replyText;
+    if (wasStopped) finalText = finalText ? `${finalText}\n\n_Stopped._` : '_Stopped._';
+    if (newSuggestions.length > 0) setIsNotesOpen(true);
+
+    // Finalize AI message and save - the reply is stored once, when complete
+    const aiMsg: ChatMessage = { ...placeholderAiMsg, text: finalText, isStreaming: false, usage };
+    syncChannelRef.current?.sendMessages([aiMsg]);
+    await syncChannelRef.current?.streamAIMessage(aiMsg, true);
+    syncChannelRef.current?.releaseAILock();
     setData(prev => {
       if (!prev) return null;
-      const finalMessages = prev.messages.map(m =>
-        m.id === aiMsgId ? { ...m, isStreaming: false } : m
-      );
-      const finalData = { ...prev, messages: finalMessages };
+      const finalData = {
+        ...prev,
+        messages: prev.messages.map(m => (m.id === aiMsgId ? { ...aiMsg, seq: m.seq } : m)),
+        suggestions: [...(prev.suggestions || []), ...newSuggestions],
+      };
       
       // Save final state
       saveRoomLocal(finalData);
-      syncChannelRef.current?.immediateSave(finalData);
+      if (newSuggestions.length > 0) syncChannelRef.current?.immediateSave(finalData);
       
       return finalData;
     });
+
+    // Older chat that has left the history window is folded into the room's summary, in the background
+    const conversation = [...aiHistory, aiMsg];
+    if (!wasStopped && needsSummary(conversation, room.chatSummary)) void refreshSummary(conversation, room);
+  };
+
+  // One summary update at a time; the result is saved on the room like other room fields
+  const refreshSummary = async (conversation: ChatMessage[], room: RoomData) => {
+    if (isSummarizingRef.current) return;
+    isSummarizingRef.current = true;
+    try {
+      const chatSummary = await updateSummary(conversation, room.chatSummary, room.aiSettings);
+      if (!chatSummary) return;
+      console.info("[noteai] 📝 Conversation summary updated");
+      setData(prev => {
+        if (!prev) return null;
+        const updated = { ...prev, chatSummary };
+        saveRoomLocal(updated);
+        syncChannelRef.current?.immediateSave(updated);
+        return updated;
+      });
+    } finally {
+      isSummarizingRef.current = false;
+    }
+  };
+
+  // Adds one of our messages to the chat and stores it right away so other devices see it
+  const postUserMessage = async (room: RoomData, text: string, role = MessageRole.USER): Promise<RoomData> => {
+    const userMsg: ChatMessage = {
+      id: createMessageId(),
+      role,
+      text,
+      timestamp: Date.now(),
+      senderId: clientIdRef.current,
+      senderLabel: clientLabelRef.current || 'Guest'
+    };
+
+    const withUserMsg: RoomData = { 
+      ...room, 
+      messages: [...room.messages, userMsg] 
+    };
+    setData(withUserMsg);
+    hasUnsnapshottedChangesRef.current = true;
+
+    console.info("[noteai] 📤 Sending message...");
+    await syncChannelRef.current?.sendMessages([userMsg]);
+    return withUserMsg;
   };
 
+  // Resolves false if the message wasn't sent (e.g. someone else's answer is streaming).
+  // With `toAI` false it is plain chat for the room: no answer, and the AI never sees it.
+  const handleSendMessage = async (text: string, toAI = true): Promise<boolean> => {
+    if (!data || isReadOnly) return false;
+    const parsed = parseCommand(text);
+    if (parsed && !parsed.command.prompt) return runCommand(parsed.command, parsed.args, text);
+    if (parsed?.command.requiresArgs && !parsed.args) return false;
+
+    if (!toAI && !parsed) {
+      await postUserMessage(data, text, MessageRole.CHAT);
+      return true;
+    }
+
+    if (!isAIAllowed || isAILoading) return false;
+    if (!(await claimAI())) return false;
+
+    const withUserMsg = await postUserMessage(data, text);
+    await respond(withUserMsg.messages, promptFor(stripAIMention(text)), withUserMsg);
+    return true;
+  };
+
+  // ==================== SLASH COMMANDS ====================
+  // What commands that don't ask the AI can do to the room (see commandService)
+  const commandActions: CommandActions = {
+    appendToNotes: (text) => {
+      const current = getPage(dataRef.current!, activePageId)?.content ?? '';
+      handleContentChange(activePageId, current.trim() ? `${current.replace(/\s+$/, '')}\n${text}\n` : `${text}\n`);
+      return true;
+    },
+    clearChat: () => handleClearChat(),
+    exportRoom: (format) => { handleExport(format); },
+    renamePage: (title) => handleRenamePage(activePageId, title),
+    setModel: (model) => {
+      const room = dataRef.current!;
+      const updated = { ...room, aiSettings: { ...resolveAISettings(room.aiSettings), model } };
+      setData(updated);
+      saveRoomLocal(updated);
+      syncChannelRef.current?.immediateSave(updated);
+    },
+  };
+
+  const runCommand = async (command: SlashCommand, args: string, text: string): Promise<boolean> => {
+    if (!command.run || (command.requiresArgs && !args)) return false;
+    if (!(await command.run(args, commandActions))) return false;
+    if (command.logged && dataRef.current) await postUserMessage(dataRef.current, text, MessageRole.CHAT);
+    return true;
+  };
+
+  // Stop the answer being streamed; whatever arrived so far is kept
+  const handleStopAI = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Re-run the user prompt before an AI message against the current notes
+  const handleRegenerate = async (aiMessageId: string) => {
+    if (!data || isReadOnly || !isAIAllowed || isAILoading) return;
+    const index = data.messages.findIndex(m => m.id === aiMessageId);
+    const promptIndex = data.messages.slice(0, index).map(m => m.role).lastIndexOf(MessageRole.USER);
+    if (index < 0 || promptIndex < 0) return;
+    if (!(await claimAI())) return;
+
+    hasUnsnapshottedChangesRef.current = true;
+    const history = data.messages.slice(0, promptIndex + 1);
+    await respond(history, promptFor(stripAIMention(data.messages[promptIndex].text)), data, aiMessageId);
+  };
+
+  // Edit an earlier message of ours and branch the conversation from there:
+  // everything after it is dropped (kept in version history) and the AI answers again
+  const handleEditMessage = async (messageId: string, text: string): Promise<boolean> => {
+    if (!data || isReadOnly) return false;
+    const index = data.messages.findIndex(m => m.id === messageId);
+    if (index < 0 || data.messages[index].senderId !== clientIdRef.current) return false;
+
+    // Room chat is just corrected in place - nothing was asked, so nothing is branched
+    if (data.messages[index].role === MessageRole.CHAT) {
+      const edited: ChatMessage = { ...data.messages[index], text };
+      setData(prev => prev ? { ...prev, messages: prev.messages.map(m => (m.id === messageId ? edited : m)) } : prev);
+      await syncChannelRef.current?.sendMessages([edited]);
+      return true;
+    }
+
+    if (!isAIAllowed || isAILoading) return false;
+    if (!(await claimAI())) return false;
+
+    await takeSnapshot('Before editing a message', data);
+
+    const edited: ChatMessage = { ...data.messages[index], text };
+    const dropped = data.messages.slice(index + 1).filter(m => !m.isStreaming);
+    // A summary that already covers the rewritten part of the chat no longer holds
+    const isSummaryStale = summaryCovers(data.chatSummary, edited.timestamp);
+    const branched: RoomData = {
+      ...data,
+      messages: [...data.messages.slice(0, index), edited],
+      chatSummary: isSummaryStale ? undefined : data.chatSummary,
+    };
+    setData(branched);
+    hasUnsnapshottedChangesRef.current = true;
+
+    const channel = syncChannelRef.current;
+    if (isSummaryStale) channel?.immediateSave(branched);
+    if (dropped.length > 0) await channel?.clearMessages(dropped.map(m => m.id));
+    await channel?.sendMessages([edited]);
+
+    await respond(branched.messages, promptFor(stripAIMention(text)), branched);
+    return true;
+  };
+
+  // ==================== OLDER MESSAGES ====================
+  // Only the latest page is loaded on connect; earlier pages are fetched on request
+  const handleLoadOlderMessages = async () => {
+    const channel = syncChannelRef.current;
+    const oldestSeq = dataRef.current?.messages.find(m => m.seq !== undefined)?.seq;
+    if (!channel || oldestSeq === undefined || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const older = await channel.loadOlderMessages(oldestSeq);
+      setData(prev => prev ? { ...prev, messages: mergeMessages(prev.messages, older) } : prev);
+      setHasOlderMessages(channel.hasOlderMessages);
+    } catch (e) {
+      console.warn("[noteai] Could not load older messages", e);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  // ==================== AI SUGGESTIONS ====================
+  // Anchors are re-resolved whenever the text (or the suggestion list) changes
+  // (only those of the open page - the sidebar counts the rest)
+  const activePageContent = data ? getPage(data, activePageId)?.content : undefined;
+  const resolvedSuggestions = useMemo(() => {
+    const doc = getPageDoc(activePageId);
+    const suggestions = (data?.suggestions || []).filter(s => (s.pageId ?? MAIN_PAGE_ID) === activePageId);
+    return doc && suggestions.length ? resolveSuggestions(doc, suggestions) : [];
+  }, [activePageContent, data?.suggestions, activePageId]);
+
+  const updateSuggestions = (id: string, accept: boolean) => {
+    const current = dataRef.current;
+    const target = current?.suggestions?.find(s => s.id === id);
+    if (!current || !target) return;
+
+    const remaining = (current.suggestions || []).filter(s => s.id !== id);
+    let updated: RoomData = { ...current, suggestions: remaining };
+
+    const targetPageId = target.pageId ?? MAIN_PAGE_ID;
+    const doc = getPageDoc(targetPageId);
+    if (accept && doc) {
+      const suggestion = resolveSuggestions(doc, [target])[0];
+      if (suggestion) {
+        // Apply as an AI-attributed CRDT edit so it merges and syncs like typing
+        doc.applyChange(toChange(suggestion), AI_ORIGIN);
+        updated = updatePage(updated, targetPageId, { content: doc.toString(), docState: doc.encodeState(), lastEditor: AI_EDITOR });
+        setLastEditors(prev => ({ ...prev, [targetPageId]: AI_EDITOR }));
+      }
+    }
+
+    // Keep the ref current so "Accept all" sees each previous result
+    dataRef.current = updated;
+    setData(updated);
+    saveRoomLocal(updated);
+    syncChannelRef.current?.immediateSave(updated);
+  };
+
+  // ==================== INLINE AI ACTIONS ====================
+  // Store a page whose document an inline action (or its undo) changed outside the textarea
+  const commitPageDoc = (pageId: string, doc: RoomDocument, lastEditor: { id: string; label: string }, immediate = false) => {
+    hasUnsnapshottedChangesRef.current = true;
+    setLastEditors(prev => ({ ...prev, [pageId]: lastEditor }));
+    setData(prev => {
+      if (!prev) return null;
+      const updated = updatePage(prev, pageId, { content: doc.toString(), docState: doc.encodeState(), lastEditor });
+      saveRoomLocal(updated);
+      if (immediate) syncChannelRef.current?.immediateSave(updated);
+      else syncChannelRef.current?.scheduleSave(updated);
+      return updated;
+    });
+  };
+
+  // Runs an action from the selection menu: the answer streams into the page like AI typing
+  // (anchored, so collaborators can keep editing around it), or into the chat for Explain
+  const handleInlineAction = async (pageId: string, actionId: string, from: number, to: number, args: string) => {
+    const action = getInlineAction(actionId);
+    const room = dataRef.current;
+    const doc = getPageDoc(pageId);
+    if (!action || !room || !doc || isReadOnly || !isAIAllowed || isAILoading) return;
+    if (action.argsLabel && !args) return;
+    const content = doc.toString();
+    const selection = content.slice(from, to);
+    if (!selection.trim()) return;
+
+    if (action.target === 'chat') {
+      if (isMobile) setIsNotesOpen(false);
+      await handleSendMessage(inlineChatMessage(action, selection, args));
+      return;
+    }
+
+    if (!(await claimAI())) return;
+    setIsAILoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const undoMark = doc.beginInlineEdit();
+    const edit: InlineEdit = { pageId, action, range: anchorRange(doc, action, from, to), undoMark, isStreaming: true };
+    setInlineEdit(edit);
+
+    const write = (text: string) => {
+      if (writeRange(doc, edit.range, text)) commitPageDoc(pageId, doc, AI_EDITOR);
+    };
+
+    const settings = resolveAISettings(room.aiSettings);
+    const prompt = inlinePrompt(action, selection, args);
+    const budget = planPrompt(getContextWindow(settings), settings.maxTokens, [], prompt);
+    let answer = '';
+    let error: string | undefined;
+    let lastWrite = 0;
+    try {
+      if (!budget) throw new Error("The selection doesn't fit the context window");
+      const context = inlineContext(content, from, to, Math.min(INLINE_CONTEXT_CHARS, budget.contextTokens * CHARS_PER_TOKEN));
+      const result = await streamAIResponse([], context, prompt, (chunkText) => {
+        // Providers report failures as an "Error: ..." text; that never goes into the notes
+        if (chunkText.startsWith('Error:')) return;
+        answer = chunkText;
+        if (Date.now() - lastWrite < INLINE_WRITE_INTERVAL_MS) return;
+        lastWrite = Date.now();
+        write(placeAnswer(action, selection, answer, false));
+      }, settings, controller.signal);
+      if (result.startsWith('Error:')) error = result.replace(/^Error:\s*/, '');
+    } catch (e) {
+      console.error("[noteai] Inline action failed", e);
+      // Stopped - keep what was written
+      if (!controller.signal.aborted) error = budget ? 'Something went wrong while writing.' : 'The selection is too long for the model. Select less text.';
+    }
+
+    abortControllerRef.current = null;
+    setIsAILoading(false);
+    syncChannelRef.current?.releaseAILock();
+
+    // A failed (or stopped before writing anything) action leaves the notes as they were
+    if (error || !answer.trim()) {
+      if (doc.undoInlineEdit(undoMark)) commitPageDoc(pageId, doc, AI_EDITOR, true);
+      setInlineEdit(error ? { ...edit, isStreaming: false, error } : null);
+      return;
+    }
+
+    write(placeAnswer(action, selection, answer, true));
+    commitPageDoc(pageId, doc, AI_EDITOR, true);
+    console.info(`[noteai] ✨ ${action.label} written to "${getPage(room, pageId)?.title ?? pageId}"`);
+
+    // Logged as room chat: everyone sees what happened to the notes, and the AI never reads it
+    const logged = await postUserMessage(
+      dataRef.current ?? room,
+      inlineLogMessage(action, selection, args, getPage(room, pageId)?.title ?? pageId) + (controller.signal.aborted ? ' _(stopped)_' : ''),
+      MessageRole.CHAT
+    );
+    const logId = logged.messages[logged.messages.length - 1].id;
+    setInlineEdit(current => (current?.range === edit.range ? { ...edit, isStreaming: false, logId } : current));
+  };
+
+  // Takes the last inline action back in one step; edits made around it since are kept
+  const handleUndoInlineEdit = async () => {
+    const edit = inlineEdit;
+    const doc = edit ? getPageDoc(edit.pageId) : null;
+    if (!edit || edit.isStreaming || !doc) return;
+    setInlineEdit(null);
+    if (!doc.undoInlineEdit(edit.undoMark)) return;
+    commitPageDoc(edit.pageId, doc, { id: clientIdRef.current, label: clientLabelRef.current }, true);
+
+    const log = dataRef.current?.messages.find(m => m.id === edit.logId);
+    if (!log) return;
+    const edited: ChatMessage = { ...log, text: `${log.text} _(undone)_` };
+    setData(prev => prev ? { ...prev, messages: prev.messages.map(m => (m.id === log.id ? edited : m)) } : prev);
+    await syncChannelRef.current?.sendMessages([edited]);
+  };
+
+  // Where the action's text is now, for the Editor to mark it and place its menu
+  const resolveInlineEdit = (pageId: string) => {
+    const doc = inlineEdit?.pageId === pageId ? getPageDoc(pageId) : null;
+    const range = doc && inlineEdit ? resolveRange(doc, inlineEdit.range) : null;
+    return inlineEdit && range
+      ? { ...range, label: inlineEdit.action.label, isStreaming: inlineEdit.isStreaming, error: inlineEdit.error }
+      : undefined;
+  };
+
+  // ==================== REMOTE CURSORS ====================
+  // Anchors let others keep our caret on the same characters while the text changes under it
+  const handleSelectionChange = (pageId: string, from: number, to: number) => {
+    const doc = getPageDoc(pageId);
+    const fromAnchor = doc?.createAnchor(from);
+    syncChannelRef.current?.sendCursor({
+      pageId,
+      from,
+      to,
+      fromAnchor,
+      toAnchor: from === to ? fromAnchor : doc?.createAnchor(to, -1),
+    });
+  };
+
+  // Offsets of someone's selection in our copy of the page, falling back to what they sent
+  const resolveCursor = (cursor: TextCursor, length: number): { from: number; to: number } => {
+    const doc = getPageDoc(cursor.pageId);
+    const resolve = (anchor: string | undefined, offset: number) =>
+      Math.min((anchor ? doc?.resolveAnchor(anchor) : null) ?? offset, length);
+    return { from: resolve(cursor.fromAnchor, cursor.from), to: resolve(cursor.toAnchor, cursor.to) };
+  };
+
+  // ==================== CITATIONS ====================
+  // A passage of this room is highlighted in the notes; one from another room opens that room's page
+  const handleOpenCitation = (href: string) => {
+    const citation = parseCitation(href);
+    if (!citation) return;
+    if (citation.roomId !== roomId) {
+      window.location.hash = `/${citation.roomId}${citation.pageId === MAIN_PAGE_ID ? '' : `/${citation.pageId}`}`;
+      return;
+    }
+    if (!data || !getPage(data, citation.pageId)) return; // the page was deleted since
+    if (citation.pageId !== activePageId) openPage(citation.pageId);
+    setIsNotesOpen(true);
+    setActiveCitation({ ...citation, shownAt: Date.now() });
+  };
+
+  useEffect(() => {
+    if (!activeCitation) return;
+    const timer = setTimeout(() => setActiveCitation(null), CITATION_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [activeCitation]);
+
+  const handleSearchOtherRoomsChange = (enabled: boolean) => {
+    setSearchOtherRooms(enabled);
+    setSearchOtherRoomsState(enabled);
+  };
+
+  // ==================== PROFILE ====================
+  // A new name or color reaches others with the next presence update
+  const handleSaveProfile = async (profile: { label: string; color: string }) => {
+    const updated = await saveProfile(profile);
+    clientLabelRef.current = updated.label;
+    setIdentity(updated);
+    syncChannelRef.current?.setIdentity(updated.label, updated.color);
+    pageDocsRef.current.forEach(({ doc }) => doc.setAuthor(currentAuthor()));
+    setIsProfileOpen(false);
+  };
+
+  // Our id changes with the account, so the room is opened again from scratch
+  const handleSignOut = async () => {
+    await signOut();
+    window.location.reload();
+  };
+
+  // ==================== CLEAR CHAT ====================
+  // Every stored message is deleted, so the snapshot (with the whole chat) must be saved first
+  const handleClearChat = async (): Promise<boolean> => {
+    const current = dataRef.current;
+    if (!current || isReadOnly) return false;
+    if (!(await takeSnapshot('Before clearing chat', current))) return false;
+    const clearedData = { ...current, messages: [], chatSummary: undefined };
+    setData(clearedData);
+    saveRoomLocal(clearedData);
+    syncChannelRef.current?.clearMessages();
+    if (current.chatSummary) syncChannelRef.current?.immediateSave(clearedData);
+    return true;
+  };
+
+  // ==================== AI SETTINGS ====================
+  const handleSaveAISettings = (aiSettings: AISettings) => {
+    if (!data) return;
+    const updated = { ...data, aiSettings };
+    setData(updated);
+    saveRoomLocal(updated);
+    syncChannelRef.current?.immediateSave(updated);
+    setIsAISettingsOpen(false);
+  };
+
+  // ==================== PAGES ====================
+  // Pages are addressed as #/room/page; the main page keeps the plain #/room link
+  const openPage = (id: string) => {
+    const query = window.location.hash.split('?')[1];
+    window.location.hash = `/${roomId}${id === MAIN_PAGE_ID ? '' : `/${id}`}${query ? `?${query}` : ''}`;
+  };
+
+  // The page list is part of the room row, saved right away like other room settings
+  const savePages = (updated: RoomData) => {
+    setData(updated);
+    saveRoomLocal(updated);
+    syncChannelRef.current?.immediateSave(updated);
+  };
+
+  const handleCreatePage = (title: string) => {
+    if (!data || isReadOnly) return;
+    const { room, page } = createPage(data, title);
+    openPageDoc(page);
+    savePages(room);
+    openPage(page.id);
+  };
+
+  const handleRenamePage = (id: string, title: string) => {
+    if (!data || isReadOnly) return;
+    savePages(renamePage(data, id, title));
+  };
+
+  const handleMovePage = (id: string, toIndex: number) => {
+    if (!data || isReadOnly) return;
+    savePages(movePage(data, id, toIndex));
+  };
+
+  // A deleted page can be brought back from version history
+  const handleDeletePage = async (id: string) => {
+    if (!data || isReadOnly) return;
+    await takeSnapshot('Before deleting a page', data);
+    const updated = deletePage(data, id);
+    closePageDocs(new Set(listPages(updated).map(page => page.id)));
+    savePages(updated);
+    if (aiContextId === id) setAIContextId(null);
+    if (activePageId === id) openPage(MAIN_PAGE_ID);
+  };
+
+  // Following a link to a page opens the notes pane
+  useEffect(() => {
+    if (pageId) setIsNotesOpen(true);
+  }, [pageId]);
+
   // ==================== RENDER ====================
+  if (keyError) {
+    return (
+      <div className="h-screen flex items-center justify-center font-sans px-4">
+        <div className="w-full max-w-sm bg-white dark:bg-[var(--bg-surface)] border border-[var(--border-muted)] rounded-2xl shadow-lg p-6 space-y-4">
+          <div className="space-y-1">
+            <h2 className="text-lg font-semibold text-[var(--text-primary)]">
+              <span className="font-mono">{roomId}</span> is end-to-end encrypted
+            </h2>
+            <p className="text-sm text-[var(--text-secondary)]">
+              {keyError === 'missing'
+                ? 'Open it with the full link, including the key after "?key=".'
+                : 'The key in this link does not match the room. Ask for a fresh link.'}
+            </p>
+          </div>
+          <button type="button" className="text-sm font-bold text-slate-500 dark:text-slate-400 hover:text-[var(--accent)]" onClick={navigateHome}>
+            Go home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (accessLevel === 'locked' || isUnlockPromptOpen) {
+    return (
+      <PasswordPrompt
+        roomId={roomId}
+        onSubmit={handleUnlock}
+        onCancel={accessLevel === 'locked' ? navigateHome : () => setIsUnlockPromptOpen(false)}
+        allowViewOnly={accessLevel === 'view'}
+      />
+    );
+  }
+
   if (!data) {
     return (
       <div className="h-screen flex items-center justify-center font-sans">
@@ -398,6 +1452,74 @@ const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
     );
   }
 
+  // Another collaborator's question is being answered
+  const aiResponder = onlineUsers.find(u => u.aiLockedAt && Date.now() - u.aiLockedAt < AI_LOCK_TIMEOUT_MS);
+
+  const pages = listPages(data);
+  const activePage = pages.find(page => page.id === activePageId) ?? pages[0];
+
+  // Pending AI suggestions per page, shown in the sidebar
+  const suggestionCounts: Record<string, number> = {};
+  (data.suggestions || []).forEach(s => {
+    const id = s.pageId ?? MAIN_PAGE_ID;
+    suggestionCounts[id] = (suggestionCounts[id] || 0) + 1;
+  });
+
+  // Props shared by the desktop and mobile notes panes
+  const editorProps = {
+    content: activePage.content,
+    onChange: (value: string) => handleContentChange(activePage.id, value),
+    lastEditor: lastEditors[activePage.id] ?? null,
+    onlineUsers,
+    clientId: clientIdRef.current,
+    readOnly: isReadOnly,
+    viewMode: notesView,
+    onViewModeChange: setNotesView,
+    onImportFile: isReadOnly ? undefined : handleImportFile,
+    suggestions: resolvedSuggestions,
+    onAcceptSuggestion: isReadOnly ? undefined : (id: string) => updateSuggestions(id, true),
+    onRejectSuggestion: isReadOnly ? undefined : (id: string) => updateSuggestions(id, false),
+    getAuthorship: () => getPageDoc(activePage.id)?.authorship() ?? [],
+    onSelectionChange: (from: number, to: number) => handleSelectionChange(activePage.id, from, to),
+    remoteCursors: onlineUsers
+      .filter(u => remoteCursors[u.sessionId]?.pageId === activePage.id)
+      .map(u => ({ id: u.sessionId, label: u.label, color: u.color, ...resolveCursor(remoteCursors[u.sessionId], activePage.content.length) })),
+    highlightedRange: activeCitation?.pageId === activePage.id
+      ? { key: String(activeCitation.shownAt), ...resolveCursor(activeCitation, activePage.content.length) }
+      : undefined,
+    onInlineAction: isReadOnly || !isAIAllowed
+      ? undefined
+      : (actionId: string, from: number, to: number, args: string) => handleInlineAction(activePage.id, actionId, from, to, args),
+    isAIBusy: isAILoading || Boolean(aiResponder),
+    inlineEdit: resolveInlineEdit(activePage.id),
+    onStopInlineEdit: handleStopAI,
+    onUndoInlineEdit: handleUndoInlineEdit,
+    onDismissInlineEdit: () => setInlineEdit(current => (current?.isStreaming ? current : null)),
+  };
+
+  const pagesSidebar = (
+    <PagesSidebar
+      pages={pages}
+      activePageId={activePage.id}
+      suggestionCounts={suggestionCounts}
+      readOnly={isReadOnly}
+      onSelect={openPage}
+      onCreate={handleCreatePage}
+      onRename={handleRenamePage}
+      onMove={handleMovePage}
+      onDelete={handleDeletePage}
+    />
+  );
+
+  // The AI context selector only matters once there is more than one page
+  const aiContextOptions = pages.length > 1
+    ? [
+        { id: '', label: `This page (${activePage.title})` },
+        { id: ALL_PAGES, label: 'All pages' },
+        ...pages.filter(page => page.id !== activePage.id).map(page => ({ id: page.id, label: page.title })),
+      ]
+    : [];
+
   return (
     <div className="flex flex-col h-screen w-full app-shell relative">
       <Header
@@ -411,20 +1533,71 @@ const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
         onToggleNotes={() => setIsNotesOpen(prev => !prev)}
         isNotesOpen={isNotesOpen}
         isConnected={isConnected}
+        pendingChanges={pendingChanges}
         onlineCount={onlineUsers.length}
-        onClearChat={() => {
-          if (!data) return;
-          const clearedData = { ...data, messages: [] };
-          setData(clearedData);
-          saveRoomLocal(clearedData);
-          syncChannelRef.current?.immediateSave(clearedData);
-        }}
+        isReadOnly={isReadOnly}
+        isProtected={isProtected(data.access)}
+        onOpenHistory={() => setIsHistoryOpen(true)}
+        onOpenAISettings={() => setIsAISettingsOpen(true)}
+        onExport={handleExport}
+        onOpenAccess={[clientIdRef.current, identity.deviceId].some(id => canManageAccess(data.access, id, accessLevel || 'view')) ? () => setIsAccessOpen(true) : undefined}
+        identity={identity}
+        onOpenProfile={() => setIsProfileOpen(true)}
+        onRequestEdit={isReadOnly && data.access?.secretHash ? () => setIsUnlockPromptOpen(true) : undefined}
+        onClearChat={handleClearChat}
       />
 
-      <div ref={containerRef} className="flex-1 flex overflow-hidden relative p-0 sm:p-4 lg:p-6 sm:gap-4 mt-14">
-        {/* Render cursors only if on desktop/tablet where notes are visible side-by-side or focused */}
-        {!isMobile && <CursorsOverlay cursors={cursors} selfId={clientIdRef.current} />}
+      {isAccessOpen && (
+        <AccessPanel
+          roomId={roomId}
+          access={data.access}
+          encryptionKey={encryptionKey}
+          isEncrypted={Boolean(data.encrypted && encryptionKey)}
+          onEnableEncryption={handleEnableEncryption}
+          onSave={handleSaveAccess}
+          onClose={() => setIsAccessOpen(false)}
+        />
+      )}
+
+      {isProfileOpen && (
+        <ProfilePanel
+          identity={identity}
+          onSave={handleSaveProfile}
+          onSendLink={sendMagicLink}
+          onSignOut={handleSignOut}
+          onClose={() => setIsProfileOpen(false)}
+        />
+      )}
+
+      {importPrompt && (
+        <ImportPrompt
+          file={importPrompt.file}
+          error={importPrompt.error}
+          pageTitle={activePage.title}
+          onChoose={(mode) => importPrompt.file && applyImport(importPrompt.file, mode)}
+          onClose={() => setImportPrompt(null)}
+        />
+      )}
 
+      {isHistoryOpen && (
+        <HistoryPanel
+          roomId={roomId}
+          currentPages={pages}
+          clientId={clientIdRef.current}
+          onRestore={handleRestoreVersion}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isAISettingsOpen && (
+        <AISettingsPanel
+          settings={data.aiSettings}
+          onSave={handleSaveAISettings}
+          onClose={() => setIsAISettingsOpen(false)}
+        />
+      )}
+
+      <div ref={containerRef} className="flex-1 flex overflow-hidden relative p-0 sm:p-4 lg:p-6 sm:gap-4 mt-14">
         <div
           className={`${isMobile ? 'w-full' : 'bg-white dark:bg-[var(--bg-surface)] border border-[var(--border-muted)] rounded-2xl shadow-lg'} h-full overflow-hidden transition-all duration-200`}
           style={{
@@ -435,8 +1608,25 @@ const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
           <Chat
             messages={data.messages}
             onSendMessage={handleSendMessage}
+            isMultiUser={onlineUsers.length > 0}
             isLoading={isAILoading}
+            onStop={handleStopAI}
+            onRegenerate={handleRegenerate}
+            onEditMessage={handleEditMessage}
             clientId={clientIdRef.current}
+            readOnly={isReadOnly}
+            aiResponderLabel={aiResponder?.label ?? null}
+            hasOlderMessages={hasOlderMessages}
+            isLoadingOlder={isLoadingOlder}
+            onLoadOlder={handleLoadOlderMessages}
+            aiConsentRequired={!isAIAllowed}
+            onAllowAI={handleAllowAI}
+            contextOptions={aiContextOptions}
+            contextId={aiContextId && aiContextId !== activePage.id ? aiContextId : ''}
+            onContextChange={(id) => setAIContextId(id || null)}
+            searchOtherRooms={canSearchOtherRooms ? searchOtherRooms : undefined}
+            onSearchOtherRoomsChange={handleSearchOtherRoomsChange}
+            onOpenCitation={handleOpenCitation}
           />
         </div>
 
@@ -455,14 +1645,15 @@ const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
               minWidth: isNotesOpen ? '25%' : '0',
             }}
           >
-            <Editor 
-              content={data.content} 
-              onChange={handleContentChange}
-              lastEditor={lastEditor}
-              onlineUsers={onlineUsers}
-              clientId={clientIdRef.current}
-              onCursorMove={(x, y) => syncChannelRef.current?.updatePresence(isTypingRef.current, { x, y })}
-            />
+            <div className="h-full flex">
+              <div className="w-36 lg:w-44 shrink-0">{pagesSidebar}</div>
+              <div className="flex-1 min-w-0">
+                <Editor 
+                  key={activePage.id}
+                  {...editorProps}
+                />
+              </div>
+            </div>
           </div>
         )}
 
@@ -476,17 +1667,14 @@ const RoomView: React.FC<RoomViewProps> = ({ roomId, navigateHome }) => {
               onClick={(e) => e.stopPropagation()}
             >
               <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--border-muted)]">
-                <span className="text-base font-semibold text-[var(--text-primary)]">Notes</span>
+                <span className="text-base font-semibold text-[var(--text-primary)] truncate">{activePage.title}</span>
                 <button className="text-sm text-[var(--accent)] font-bold" onClick={() => setIsNotesOpen(false)}>Close</button>
               </div>
-              <div className="h-[calc(100%-52px)]">
-                <Editor 
-                  content={data.content} 
-                  onChange={handleContentChange}
-                  lastEditor={lastEditor}
-                  onlineUsers={onlineUsers}
-                  clientId={clientIdRef.current}
-                />
+              <div className="h-[calc(100%-52px)] flex">
+                <div className="w-28 shrink-0">{pagesSidebar}</div>
+                <div className="flex-1 min-w-0">
+                  <Editor key={activePage.id} {...editorProps} />
+                </div>
               </div>
             </div>
           </div>
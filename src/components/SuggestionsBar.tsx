@@ -0,0 +1,85 @@
+import React from 'react';
+import { ResolvedSuggestion } from '../services/suggestionService';
+
+interface SuggestionsBarProps {
+  suggestions: ResolvedSuggestion[];
+  onAccept: (id: string) => void;
+  onReject: (id: string) => void;
+}
+
+const KIND_LABELS: Record<ResolvedSuggestion['kind'], string> = {
+  insert: 'Insert',
+  replace: 'Replace',
+  delete: 'Delete',
+};
+
+const truncate = (text: string, max = 120) => (text.length > max ? `${text.slice(0, max)}…` : text);
+
+// Pending AI edits shown under the notes as tracked changes
+const SuggestionsBar: React.FC<SuggestionsBarProps> = ({ suggestions, onAccept, onReject }) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="shrink-0 border-t border-[var(--border-muted)] bg-slate-50 dark:bg-slate-900/40 max-h-56 overflow-y-auto">
+      <div className="flex items-center justify-between px-4 py-2 sticky top-0 bg-slate-50 dark:bg-[var(--bg-surface)] border-b border-[var(--border-muted)]">
+        <span className="text-[11px] font-bold tracking-wider text-slate-400 dark:text-slate-500 uppercase">
+          AI suggested {suggestions.length} {suggestions.length === 1 ? 'edit' : 'edits'}
+        </span>
+        <div className="flex gap-3">
+          <button
+            className="text-xs font-bold text-emerald-600 hover:opacity-80"
+            onClick={() => suggestions.forEach(s => onAccept(s.id))}
+          >
+            Accept all
+          </button>
+          <button
+            className="text-xs font-bold text-[#a31221] hover:opacity-80"
+            onClick={() => suggestions.forEach(s => onReject(s.id))}
+          >
+            Reject all
+          </button>
+        </div>
+      </div>
+
+      {suggestions.map(suggestion => (
+        <div key={suggestion.id} className="px-4 py-2 border-b border-[var(--border-muted)] last:border-b-0 flex items-start gap-3">
+          <div className="flex-1 min-w-0 text-sm">
+            <span className="text-[11px] font-bold uppercase text-slate-400 dark:text-slate-500 mr-2">
+              {KIND_LABELS[suggestion.kind]}
+            </span>
+            {suggestion.originalText && (
+              <span className="line-through text-red-600 dark:text-red-400 break-words whitespace-pre-wrap">
+                {truncate(suggestion.originalText)}
+              </span>
+            )}
+            {suggestion.originalText && suggestion.text && <span className="text-slate-400 mx-1">→</span>}
+            {suggestion.text && (
+              <span className="text-emerald-700 dark:text-emerald-400 break-words whitespace-pre-wrap">
+                {truncate(suggestion.text)}
+              </span>
+            )}
+            {suggestion.isStale && (
+              <div className="text-xs text-amber-500 mt-0.5">The text changed since this was suggested.</div>
+            )}
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button
+              className="text-xs font-bold text-white bg-emerald-600 px-2 py-1 rounded-md hover:opacity-90"
+              onClick={() => onAccept(suggestion.id)}
+            >
+              Accept
+            </button>
+            <button
+              className="text-xs font-bold text-slate-500 dark:text-slate-400 px-2 py-1 rounded-md hover:text-[#a31221]"
+              onClick={() => onReject(suggestion.id)}
+            >
+              Reject
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SuggestionsBar;
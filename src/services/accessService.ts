@@ -0,0 +1,94 @@
+/**
+ * ROOM ACCESS SERVICE
+ *
+ * Optional password and read-only share links for rooms. The password is
+ * stretched with PBKDF2 into a key that stays in the browser (remembered for
+ * the tab session); the room only stores a SHA-256 verifier of that key, so
+ * the public row holds nothing that unlocks it. This is a client-side gate -
+ * pair it with RLS policies for hard enforcement (see PROJECT_WORKING.md).
+ */
+
+import { RoomAccess, RoomData } from "../types";
+
+export type AccessLevel = "edit" | "view" | "locked";
+
+const UNLOCK_PREFIX = "padai_unlock_";
+const HASH_ITERATIONS = 100_000;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("");
+
+// Salted with the room id so equal passwords in different rooms hash differently
+export const hashSecret = async (roomId: string, secret: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt: encoder.encode(`padai:${roomId}`), iterations: HASH_ITERATIONS, hash: "SHA-256" },
+    key,
+    256
+  );
+  return toHex(bits);
+};
+
+const sha256 = async (text: string): Promise<string> =>
+  toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+
+// The password key kept by whoever typed the password, and the verifier stored on the room
+export const derivePassword = async (roomId: string, password: string): Promise<{ key: string; verifier: string }> => {
+  const key = await hashSecret(roomId, password);
+  return { key, verifier: await sha256(key) };
+};
+
+export const generateViewToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+export const buildViewLink = (roomId: string, token: string): string =>
+  `${window.location.origin}/#/${roomId}?view=${token}`;
+
+// ==================== UNLOCK MEMORY ====================
+// The password key is remembered for this tab session only
+
+export const rememberUnlock = (roomId: string, passwordKey: string) => {
+  sessionStorage.setItem(`${UNLOCK_PREFIX}${roomId}`, passwordKey);
+};
+
+export const getRememberedUnlock = (roomId: string): string | null =>
+  sessionStorage.getItem(`${UNLOCK_PREFIX}${roomId}`);
+
+// ==================== ACCESS RESOLUTION ====================
+
+export const isProtected = (access?: RoomAccess): boolean => Boolean(access && access.mode !== "open");
+
+export const resolveAccess = async (
+  room: RoomData | null,
+  viewToken: string | null
+): Promise<AccessLevel> => {
+  const access = room?.access;
+  if (!room || !access || access.mode === "open" || !access.secretHash) return "edit";
+
+  const remembered = getRememberedUnlock(room.id);
+  if (remembered && (await sha256(remembered)) === access.secretHash) return "edit";
+
+  if (viewToken && access.viewTokenHash && (await hashSecret(room.id, viewToken)) === access.viewTokenHash) {
+    return "view";
+  }
+
+  return access.mode === "view-only" ? "view" : "locked";
+};
+
+export const checkPassword = async (room: RoomData, password: string): Promise<boolean> => {
+  const secretHash = room.access?.secretHash;
+  if (!secretHash) return true;
+  const { key, verifier } = await derivePassword(room.id, password);
+  const matches = verifier === secretHash;
+  if (matches) rememberUnlock(room.id, key);
+  return matches;
+};
+
+// Whether this client may change the access settings
+export const canManageAccess = (access: RoomAccess | undefined, clientId: string, level: AccessLevel): boolean =>
+  level === "edit" && (!access?.ownerId || access.ownerId === clientId);
@@ -0,0 +1,69 @@
+/**
+ * AI PROVIDER REGISTRY
+ *
+ * Every chat completion goes through here. Providers register themselves by
+ * id and each room picks one (plus model / temperature / max tokens) via
+ * `RoomData.aiSettings`, so a room can run against Groq, Gemini or a
+ * self-hosted OpenAI-compatible server.
+ */
+
+import { AIProvider, AISettings, ChatMessage } from "../types";
+import { groqProvider } from "./groqService";
+import { geminiProvider } from "./geminiService";
+import { selfHostedProvider } from "./openaiCompatibleService";
+
+const providers = new Map<string, AIProvider>();
+
+export const registerProvider = (provider: AIProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): AIProvider | undefined => providers.get(id);
+
+export const listProviders = (): AIProvider[] => Array.from(providers.values());
+
+registerProvider(groqProvider);
+registerProvider(geminiProvider);
+registerProvider(selfHostedProvider);
+
+// Default provider can be switched per deployment, e.g. VITE_AI_PROVIDER=openai-compatible
+const DEFAULT_PROVIDER_ID = import.meta.env.VITE_AI_PROVIDER || groqProvider.id;
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  providerId: DEFAULT_PROVIDER_ID,
+  model: getProvider(DEFAULT_PROVIDER_ID)?.defaultModel || groqProvider.defaultModel,
+  temperature: 0.7,
+  maxTokens: 1024,
+};
+
+// Fill in anything a room hasn't chosen (or chose before a setting existed)
+export const resolveAISettings = (settings?: Partial<AISettings>): AISettings => {
+  const merged = { ...DEFAULT_AI_SETTINGS, ...settings };
+  if (!providers.has(merged.providerId)) {
+    return DEFAULT_AI_SETTINGS;
+  }
+  if (!merged.model) {
+    merged.model = providers.get(merged.providerId)!.defaultModel;
+  }
+  return merged;
+};
+
+// Tokens the room's model takes in: the room's own setting, else what its provider knows about the model
+export const getContextWindow = (settings?: Partial<AISettings>): number => {
+  const resolved = resolveAISettings(settings);
+  return resolved.contextWindow || providers.get(resolved.providerId)!.contextWindow(resolved.model);
+};
+
+export const streamAIResponse = async (
+  history: ChatMessage[],
+  currentContext: string,
+  userPrompt: string,
+  onChunk: (text: string) => void,
+  settings?: Partial<AISettings>,
+  signal?: AbortSignal,
+  onUsage?: (usage: { input: number; output: number }) => void
+): Promise<string> => {
+  const resolved = resolveAISettings(settings);
+  const provider = providers.get(resolved.providerId)!;
+  return provider.streamResponse(history, currentContext, userPrompt, onChunk, resolved, signal, onUsage);
+};
@@ -0,0 +1,158 @@
+/**
+ * SLASH COMMANDS
+ *
+ * Chat input starting with "/" runs a command instead of asking the AI
+ * directly. Commands register themselves here by name; the chat reads the
+ * registry for autocomplete and the room view runs them. AI commands turn
+ * their arguments into a prompt and are answered like any other message;
+ * the rest act on the room through `CommandActions`.
+ */
+
+import { ChatMessage, MessageRole } from "../types";
+import { ExportFormat, EXPORT_FORMATS } from "./exportService";
+
+// What a non-AI command may do to the room
+export interface CommandActions {
+  appendToNotes: (text: string) => boolean;
+  clearChat: () => Promise<boolean>; // false if the older chat could not be loaded for the snapshot
+  exportRoom: (format: ExportFormat) => void;
+  renamePage: (title: string) => void;
+  setModel: (model: string) => void;
+}
+
+export interface SlashCommand {
+  name: string; // typed after the slash
+  usage?: string; // argument hint shown in autocomplete, e.g. "<language>"
+  description: string;
+  requiresArgs?: boolean;
+  // AI commands: what the AI is asked. The typed command stays the visible message.
+  prompt?: (args: string) => string;
+  // Other commands: false keeps the text in the input (e.g. bad arguments)
+  run?: (args: string, actions: CommandActions) => boolean | Promise<boolean>;
+  // Post the typed command to the chat so everyone sees what was done
+  logged?: boolean;
+}
+
+const commands = new Map<string, SlashCommand>();
+
+export const registerCommand = (command: SlashCommand) => {
+  commands.set(command.name, command);
+};
+
+export const listCommands = (): SlashCommand[] => Array.from(commands.values());
+
+// ==================== PARSING ====================
+
+// "/translate French" -> the translate command with args "French"; null for normal messages
+export const parseCommand = (text: string): { command: SlashCommand; args: string } | null => {
+  const match = text.trim().match(/^\/(\S+)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+  const command = commands.get(match[1].toLowerCase());
+  return command ? { command, args: (match[2] || "").trim() } : null;
+};
+
+// Commands whose name starts with what has been typed after "/" (nothing once an argument is being typed)
+export const matchCommands = (input: string): SlashCommand[] => {
+  const match = input.match(/^\/(\S*)$/);
+  if (!match) return [];
+  const typed = match[1].toLowerCase();
+  return listCommands().filter(command => command.name.startsWith(typed));
+};
+
+// Whether `text` needs the AI (a plain message, or an AI command)
+export const needsAI = (text: string): boolean => {
+  const parsed = parseCommand(text);
+  return !parsed || Boolean(parsed.command.prompt);
+};
+
+// History as the AI should see it: AI commands expanded to their prompts, logged commands left out
+export const toAIHistory = (history: ChatMessage[]): ChatMessage[] =>
+  history.flatMap(message => {
+    if (message.role !== MessageRole.USER) return [message];
+    const parsed = parseCommand(message.text);
+    if (!parsed) return [message];
+    return parsed.command.prompt ? [{ ...message, text: parsed.command.prompt(parsed.args) }] : [];
+  });
+
+// The AI prompt for a user message (the message itself unless it is an AI command)
+export const promptFor = (text: string): string => {
+  const parsed = parseCommand(text);
+  return parsed?.command.prompt ? parsed.command.prompt(parsed.args) : text;
+};
+
+// ==================== BUILT-IN COMMANDS ====================
+
+registerCommand({
+  name: "summarize",
+  description: "Summarize the notes",
+  prompt: (args) =>
+    `Summarize the document in a few short bullet points${args ? `, focusing on ${args}` : ""}. Do not suggest edits.`,
+});
+
+registerCommand({
+  name: "todo",
+  description: "Extract action items into the notes",
+  prompt: () =>
+    `Extract every action item from the document as a markdown task list ("- [ ] ..."), naming the owner when the text says who.
+    Reply with the list, and propose an edit that appends it at the end of the document under a "## Action items" heading
+    (or adds the missing items to that section if it already exists).`,
+});
+
+registerCommand({
+  name: "translate",
+  usage: "<language>",
+  description: "Translate the notes",
+  requiresArgs: true,
+  prompt: (args) => `Translate the document into ${args}. Reply with the translation only, keeping the markdown formatting.`,
+});
+
+registerCommand({
+  name: "clear",
+  description: "Clear the chat (kept in version history)",
+  run: (_args, actions) => actions.clearChat(),
+});
+
+registerCommand({
+  name: "export",
+  usage: `[${EXPORT_FORMATS.map(f => f.format).join("|")}]`,
+  description: "Download the room (Markdown by default)",
+  run: (args, actions) => {
+    const format = (args.toLowerCase() || "md") as ExportFormat;
+    if (!EXPORT_FORMATS.some(f => f.format === format)) return false;
+    actions.exportRoom(format);
+    return true;
+  },
+});
+
+registerCommand({
+  name: "rename",
+  usage: "<name>",
+  description: "Rename the open page",
+  requiresArgs: true,
+  logged: true,
+  run: (args, actions) => {
+    actions.renamePage(args);
+    return true;
+  },
+});
+
+registerCommand({
+  name: "model",
+  usage: "<name>",
+  description: "Switch this room's AI model",
+  requiresArgs: true,
+  logged: true,
+  run: (args, actions) => {
+    actions.setModel(args);
+    return true;
+  },
+});
+
+registerCommand({
+  name: "note",
+  usage: "<text>",
+  description: "Add text to the notes without asking the AI",
+  requiresArgs: true,
+  logged: true,
+  run: (args, actions) => actions.appendToNotes(args),
+});
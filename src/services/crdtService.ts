@@ -0,0 +1,325 @@
+/**
+ * CRDT DOCUMENT SERVICE
+ *
+ * Wraps a Yjs document so the notes pad can be edited concurrently.
+ * Every keystroke becomes a small Yjs update that is broadcast to the
+ * other clients and merged character-by-character, instead of the old
+ * "whole string wins" upsert.
+ * The document also records who typed each run of text, for the blame view.
+ */
+
+import * as Y from "yjs";
+
+const TEXT_KEY = "content";
+const AUTHORS_KEY = "authors"; // Yjs client id -> TextAuthor
+const EDITS_KEY = "edits"; // "<client>:<clock>" -> EditMark, the first character typed in a burst
+
+// Fixed client id used to seed a document from legacy plain-text content.
+// Every client seeding the same text produces identical Yjs structs, so the
+// seeds deduplicate instead of doubling the text when they merge.
+const SEED_CLIENT_ID = 0;
+
+export const LOCAL_ORIGIN = "local";
+export const REMOTE_ORIGIN = "remote";
+export const AI_ORIGIN = "ai"; // local edit made on behalf of the assistant (accepted suggestion)
+export const AI_INLINE_ORIGIN = "ai-inline"; // text streamed in by an inline AI action, undone as one step
+
+export const isAIOrigin = (origin: unknown): boolean => origin === AI_ORIGIN || origin === AI_INLINE_ORIGIN;
+
+// Typing within this long of the previous edit shares its timestamp
+const EDIT_BURST_MS = 60 * 1000;
+
+// ==================== ENCODING ====================
+
+export const encodeUpdate = (update: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < update.length; i++) {
+    binary += String.fromCharCode(update[i]);
+  }
+  return btoa(binary);
+};
+
+export const decodeUpdate = (encoded: string): Uint8Array => {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// ==================== TEXT DIFF ====================
+
+export interface TextChange {
+  index: number;
+  deleteCount: number;
+  insert: string;
+}
+
+// Single-splice diff between two strings (common prefix + common suffix).
+// A textarea change event is always one contiguous edit, so this is exact for local typing.
+export const diffText = (prev: string, next: string): TextChange | null => {
+  if (prev === next) return null;
+
+  let start = 0;
+  const minLength = Math.min(prev.length, next.length);
+  while (start < minLength && prev[start] === next[start]) start++;
+
+  let prevEnd = prev.length;
+  let nextEnd = next.length;
+  while (prevEnd > start && nextEnd > start && prev[prevEnd - 1] === next[nextEnd - 1]) {
+    prevEnd--;
+    nextEnd--;
+  }
+
+  return {
+    index: start,
+    deleteCount: prevEnd - start,
+    insert: next.slice(start, nextEnd),
+  };
+};
+
+// Shift a caret offset so it stays on the same character after a change elsewhere.
+export const transformOffset = (offset: number, change: TextChange): number => {
+  if (offset <= change.index) return offset;
+  if (offset >= change.index + change.deleteCount) {
+    return offset - change.deleteCount + change.insert.length;
+  }
+  return change.index + change.insert.length;
+};
+
+// ==================== AUTHORSHIP ====================
+
+export interface TextAuthor {
+  id: string;
+  label: string;
+  color: string;
+}
+
+interface EditMark {
+  at: number;
+  ai?: boolean; // an AI suggestion this author accepted
+}
+
+// A run of text and who wrote it; `author` is null for text from before authorship was tracked
+export interface AuthorSpan {
+  from: number;
+  to: number;
+  author: TextAuthor | null;
+  at?: number;
+  ai?: boolean;
+}
+
+// ==================== ROOM DOCUMENT ====================
+
+export class RoomDocument {
+  readonly doc: Y.Doc;
+  readonly text: Y.Text;
+  private readonly authors: Y.Map<TextAuthor>;
+  private readonly edits: Y.Map<EditMark>;
+  private author: TextAuthor | null = null;
+  private lastEdit: EditMark | null = null;
+  private inlineUndo: Y.UndoManager | null = null;
+
+  constructor() {
+    this.doc = new Y.Doc();
+    this.text = this.doc.getText(TEXT_KEY);
+    this.authors = this.doc.getMap(AUTHORS_KEY);
+    this.edits = this.doc.getMap(EDITS_KEY);
+  }
+
+  // Who our own edits are credited to; edits made before this is set stay unattributed
+  setAuthor(author: TextAuthor) {
+    this.author = author;
+  }
+
+  toString(): string {
+    return this.text.toString();
+  }
+
+  // Load persisted state (base64 Yjs update) or fall back to seeding from plain text
+  load(docState: string | undefined, fallbackContent: string) {
+    if (docState) {
+      this.applyRemoteUpdate(docState);
+      return;
+    }
+    if (fallbackContent) {
+      const seed = new Y.Doc();
+      seed.clientID = SEED_CLIENT_ID;
+      seed.getText(TEXT_KEY).insert(0, fallbackContent);
+      Y.applyUpdate(this.doc, Y.encodeStateAsUpdate(seed), REMOTE_ORIGIN);
+      seed.destroy();
+    }
+  }
+
+  // Apply the user's textarea edit as a minimal CRDT operation
+  applyLocalChange(next: string): boolean {
+    const change = diffText(this.text.toString(), next);
+    if (!change) return false;
+    this.applyChange(change);
+    return true;
+  }
+
+  applyChange(change: TextChange, origin: string = LOCAL_ORIGIN) {
+    this.doc.transact(() => {
+      if (change.deleteCount > 0) this.text.delete(change.index, change.deleteCount);
+      if (change.insert) {
+        this.markEdit(isAIOrigin(origin));
+        this.text.insert(change.index, change.insert);
+      }
+    }, origin);
+  }
+
+  // Starts a new undo step for inline AI actions: everything written with AI_INLINE_ORIGIN
+  // until the next call is undone together, leaving typing (ours or anyone's) alone.
+  // Returns the step's mark for undoInlineEdit.
+  beginInlineEdit(): number {
+    if (!this.inlineUndo) {
+      this.inlineUndo = new Y.UndoManager(this.text, { trackedOrigins: new Set([AI_INLINE_ORIGIN]), captureTimeout: Infinity });
+    }
+    this.inlineUndo.stopCapturing();
+    return this.inlineUndo.undoStack.length;
+  }
+
+  // Reverts the inline AI action begun at `mark`; false if it wrote nothing or was undone already.
+  // An action that never wrote has no step of its own, and undo() would take back the one before.
+  undoInlineEdit(mark: number): boolean {
+    if (!this.inlineUndo || this.inlineUndo.undoStack.length <= mark) return false;
+    return Boolean(this.inlineUndo.undo());
+  }
+
+  // Records our author and, at the start of each burst of typing, the time.
+  // Must run inside the transaction, before the insert it describes.
+  private markEdit(ai: boolean) {
+    if (!this.author) return;
+    const client = this.doc.clientID;
+
+    const known = this.authors.get(String(client));
+    if (!known || known.id !== this.author.id || known.label !== this.author.label || known.color !== this.author.color) {
+      this.authors.set(String(client), { ...this.author });
+    }
+
+    const now = Date.now();
+    if (this.lastEdit && now - this.lastEdit.at < EDIT_BURST_MS && Boolean(this.lastEdit.ai) === ai) return;
+    this.lastEdit = ai ? { at: now, ai } : { at: now };
+    this.edits.set(`${client}:${Y.getState(this.doc.store, client)}`, this.lastEdit);
+  }
+
+  // Runs of the current text by author and time, in text order
+  authorship(): AuthorSpan[] {
+    // Edit marks per client, ordered by clock
+    const marks = new Map<number, { clock: number; mark: EditMark }[]>();
+    this.edits.forEach((mark, key) => {
+      const [client, clock] = key.split(":").map(Number);
+      if (!marks.has(client)) marks.set(client, []);
+      marks.get(client)!.push({ clock, mark });
+    });
+    marks.forEach(list => list.sort((a, b) => a.clock - b.clock));
+
+    const spans: AuthorSpan[] = [];
+    const push = (span: AuthorSpan) => {
+      const last = spans[spans.length - 1];
+      if (last && last.to === span.from && last.author?.id === span.author?.id && last.at === span.at && last.ai === span.ai) {
+        last.to = span.to;
+      } else {
+        spans.push(span);
+      }
+    };
+
+    let index = 0;
+    for (let item = this.text._start; item; item = item.right) {
+      if (item.deleted || !item.countable) continue;
+      const { client, clock } = item.id;
+      const author = this.authors.get(String(client)) ?? null;
+      const list = marks.get(client) ?? [];
+
+      // Consecutive inserts are merged into one item, so it may cover several bursts
+      let offset = 0;
+      while (offset < item.length) {
+        let current: EditMark | undefined;
+        let end = item.length;
+        for (const entry of list) {
+          if (entry.clock <= clock + offset) current = entry.mark;
+          else {
+            end = Math.min(end, entry.clock - clock);
+            break;
+          }
+        }
+        push({ from: index + offset, to: index + end, author, at: current?.at, ai: current?.ai });
+        offset = end;
+      }
+      index += item.length;
+    }
+    return spans;
+  }
+
+  // Encoded relative position that follows the text through concurrent edits.
+  // assoc 0 sticks to the character after `index`, -1 to the one before it.
+  createAnchor(index: number, assoc: 0 | -1 = 0): string {
+    const position = Y.createRelativePositionFromTypeIndex(this.text, index, assoc);
+    return encodeUpdate(Y.encodeRelativePosition(position));
+  }
+
+  // Current offset of an anchor, or null if it refers to text this doc has never seen
+  resolveAnchor(anchor: string): number | null {
+    try {
+      const position = Y.decodeRelativePosition(decodeUpdate(anchor));
+      const absolute = Y.createAbsolutePositionFromRelativePosition(position, this.doc);
+      return absolute ? absolute.index : null;
+    } catch {
+      return null;
+    }
+  }
+
+  applyRemoteUpdate(encoded: string) {
+    try {
+      Y.applyUpdate(this.doc, decodeUpdate(encoded), REMOTE_ORIGIN);
+    } catch (e) {
+      console.error("[CRDT] Failed to apply update", e);
+    }
+  }
+
+  // Full state, persisted to the rooms row as "docState"
+  encodeState(): string {
+    return encodeUpdate(Y.encodeStateAsUpdate(this.doc));
+  }
+
+  // True if we hold changes that a persisted row (state + plain content) is missing,
+  // i.e. another client overwrote the row before it had merged our edits.
+  hasChangesMissingFrom(docState: string, content: string): boolean {
+    try {
+      const remoteVector = Y.decodeStateVector(Y.encodeStateVectorFromUpdate(decodeUpdate(docState)));
+      const localVector = Y.decodeStateVector(Y.encodeStateVector(this.doc));
+      for (const [client, clock] of localVector) {
+        if ((remoteVector.get(client) ?? 0) < clock) return true;
+      }
+      // Same inserts but different text means a deletion the row hasn't seen
+      return this.text.toString() !== content;
+    } catch {
+      return true;
+    }
+  }
+
+  // Fires with each outgoing/incoming binary update
+  onUpdate(callback: (update: string, isLocal: boolean, origin: unknown) => void): () => void {
+    const handler = (update: Uint8Array, origin: unknown) => {
+      callback(encodeUpdate(update), origin !== REMOTE_ORIGIN, origin);
+    };
+    this.doc.on("update", handler);
+    return () => this.doc.off("update", handler);
+  }
+
+  // Fires whenever the text changes, with the resulting plain string
+  onTextChange(callback: (content: string, isLocal: boolean) => void): () => void {
+    const handler = (event: Y.YTextEvent) => {
+      callback(this.text.toString(), event.transaction.origin !== REMOTE_ORIGIN);
+    };
+    this.text.observe(handler);
+    return () => this.text.unobserve(handler);
+  }
+
+  destroy() {
+    this.inlineUndo?.destroy();
+    this.doc.destroy();
+  }
+}
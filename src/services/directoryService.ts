@@ -0,0 +1,126 @@
+/**
+ * ROOM DIRECTORY
+ *
+ * The rooms this browser has visited, for the home page. Titles, update times
+ * and search text come from the copies cached by storageService; the directory
+ * itself only remembers when each room was last opened and which are pinned.
+ * End-to-end encrypted rooms are listed by id only, since their key isn't kept.
+ */
+
+import { RoomData } from "../types";
+import { listCachedRoomIds, getStoredRoom, removeCachedRoom } from "./storageService";
+import { isLockedRoom } from "./encryptionService";
+import { listPages } from "./pageService";
+
+const DIRECTORY_KEY = "padai_directory"; // { [roomId]: { visitedAt, pinned? } }
+
+export interface RoomEntry {
+  id: string;
+  title: string; // first heading of the notes, "" if there is none
+  updatedAt: number;
+  visitedAt: number;
+  lastEditor?: { id: string; label: string };
+  pinned: boolean;
+  encrypted: boolean; // can't be read without the key from its link
+  text: string; // notes of every page and the chat, for search
+}
+
+export interface RoomMatch {
+  room: RoomEntry;
+  snippet?: string; // text around the first hit outside the title and id
+}
+
+type Directory = Record<string, { visitedAt: number; pinned?: boolean }>;
+
+const readDirectory = (): Directory => {
+  try {
+    return JSON.parse(localStorage.getItem(DIRECTORY_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const writeDirectory = (directory: Directory) => {
+  localStorage.setItem(DIRECTORY_KEY, JSON.stringify(directory));
+};
+
+// "# Q3 planning" -> "Q3 planning"
+export const titleOf = (content: string): string => {
+  const heading = content.match(/^ {0,3}#{1,6}\s+(.+?)\s*#*\s*$/m);
+  return heading ? heading[1].trim() : "";
+};
+
+// ==================== WRITING ====================
+
+// Called when a room is opened
+export const markVisited = (roomId: string) => {
+  const directory = readDirectory();
+  directory[roomId] = { ...directory[roomId], visitedAt: Date.now() };
+  writeDirectory(directory);
+};
+
+export const setPinned = (roomId: string, pinned: boolean) => {
+  const directory = readDirectory();
+  directory[roomId] = { visitedAt: directory[roomId]?.visitedAt ?? 0, pinned };
+  writeDirectory(directory);
+};
+
+// Drops the room from the list along with its cached copy; the room itself stays online
+export const forgetRoom = (roomId: string) => {
+  const directory = readDirectory();
+  delete directory[roomId];
+  writeDirectory(directory);
+  removeCachedRoom(roomId);
+};
+
+// ==================== READING ====================
+
+const toEntry = (room: RoomData, visit?: { visitedAt: number; pinned?: boolean }): RoomEntry => {
+  const encrypted = isLockedRoom(room);
+  const pages = encrypted ? [] : listPages(room);
+  return {
+    id: room.id,
+    title: pages.map(page => titleOf(page.content)).find(Boolean) || "",
+    updatedAt: room.updatedAt || 0,
+    visitedAt: visit?.visitedAt || room.updatedAt || 0,
+    lastEditor: room.lastEditor,
+    pinned: Boolean(visit?.pinned),
+    encrypted,
+    text: [
+      ...pages.map(page => page.content),
+      ...(room.messages || []).map(message => message.text),
+    ].join("\n"),
+  };
+};
+
+// Every cached room, pinned first, then most recently visited
+export const listRooms = (): RoomEntry[] => {
+  const directory = readDirectory();
+  const rooms: RoomEntry[] = [];
+  for (const id of listCachedRoomIds()) {
+    const room = getStoredRoom(id);
+    if (room && typeof room.content === "string") rooms.push(toEntry({ ...room, id }, directory[id]));
+  }
+  return rooms.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.visitedAt - a.visitedAt);
+};
+
+const SNIPPET_RADIUS = 40;
+
+// Rooms containing every word of `query` (in the id, title, notes or chat), in list order
+export const searchRooms = (rooms: RoomEntry[], query: string): RoomMatch[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return rooms.map(room => ({ room }));
+
+  return rooms.flatMap(room => {
+    const text = room.text.toLowerCase();
+    const haystack = `${room.id}\n${room.title.toLowerCase()}\n${text}`;
+    if (!terms.every(term => haystack.includes(term))) return [];
+
+    const hit = terms.map(term => text.indexOf(term)).filter(index => index >= 0).sort((a, b) => a - b)[0];
+    if (hit === undefined) return [{ room }];
+    const start = Math.max(0, hit - SNIPPET_RADIUS);
+    const end = hit + SNIPPET_RADIUS * 2;
+    const snippet = room.text.slice(start, end).replace(/\s+/g, " ").trim();
+    return [{ room, snippet: `${start > 0 ? "…" : ""}${snippet}${end < room.text.length ? "…" : ""}` }];
+  });
+};
@@ -0,0 +1,192 @@
+/**
+ * END-TO-END ENCRYPTION SERVICE
+ *
+ * Rooms opened with `#/room?key=<key>` are encrypted client-side with
+ * AES-GCM. The key only lives in the URL fragment (never sent to a server);
+ * Supabase, localStorage and the history store only ever see ciphertext.
+ * Everything here is a passthrough for rooms without a key.
+ */
+
+import { RoomData, RoomVersion, ChatMessage } from "../types";
+
+const CIPHER_PREFIX = "enc:v1:";
+const AI_CONSENT_PREFIX = "padai_ai_consent_";
+
+const roomKeys = new Map<string, CryptoKey>();
+
+// ==================== ENCODING ====================
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (encoded: string): Uint8Array => {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// ==================== KEYS ====================
+
+export const generateRoomKey = async (): Promise<{ key: CryptoKey; encoded: string }> => {
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+  const raw = await crypto.subtle.exportKey("raw", key);
+  return { key, encoded: toBase64Url(new Uint8Array(raw)) };
+};
+
+export const importRoomKey = async (encoded: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey("raw", fromBase64Url(encoded), { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+
+export const setRoomKey = (roomId: string, key: CryptoKey | null) => {
+  if (key) roomKeys.set(roomId, key);
+  else roomKeys.delete(roomId);
+};
+
+export const hasRoomKey = (roomId: string): boolean => roomKeys.has(roomId);
+
+export const buildKeyedLink = (roomId: string, encodedKey: string): string =>
+  `${window.location.origin}/#/${roomId}?key=${encodedKey}`;
+
+// ==================== TEXT ====================
+
+export const isCiphertext = (value: unknown): value is string =>
+  typeof value === "string" && value.startsWith(CIPHER_PREFIX);
+
+// Encrypt with the room's key; returns the input unchanged for unencrypted rooms
+export const sealText = async (roomId: string, plaintext: string): Promise<string> => {
+  const key = roomKeys.get(roomId);
+  if (!key) return plaintext;
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plaintext))
+  );
+  const combined = new Uint8Array(iv.length + ciphertext.length);
+  combined.set(iv);
+  combined.set(ciphertext, iv.length);
+  return CIPHER_PREFIX + toBase64Url(combined);
+};
+
+// Decrypt with the room's key; throws if the key is missing or wrong
+export const openText = async (roomId: string, value: string): Promise<string> => {
+  if (!isCiphertext(value)) return value;
+  const key = roomKeys.get(roomId);
+  if (!key) throw new Error("Missing room key");
+
+  const combined = fromBase64Url(value.slice(CIPHER_PREFIX.length));
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: combined.slice(0, 12) },
+    key,
+    combined.slice(12)
+  );
+  return new TextDecoder().decode(plaintext);
+};
+
+// ==================== ROOMS ====================
+
+// Fields that hold user content and are moved into the ciphertext
+type SealedRoomFields = Pick<RoomData, "content" | "messages" | "docState" | "suggestions" | "lastEditor" | "pages" | "chatSummary">;
+
+export const sealRoom = async (room: RoomData): Promise<RoomData> => {
+  if (!hasRoomKey(room.id)) return room;
+
+  const secret: SealedRoomFields = {
+    content: room.content,
+    messages: room.messages,
+    docState: room.docState,
+    suggestions: room.suggestions,
+    lastEditor: room.lastEditor,
+    pages: room.pages,
+    chatSummary: room.chatSummary,
+  };
+  return {
+    ...room,
+    content: "",
+    messages: [],
+    docState: undefined,
+    suggestions: [],
+    lastEditor: undefined,
+    pages: undefined,
+    chatSummary: undefined,
+    encrypted: true,
+    ciphertext: await sealText(room.id, JSON.stringify(secret)),
+  };
+};
+
+// Rooms we can't decrypt come back with `ciphertext` still set - see isLockedRoom
+export const openRoom = async (room: RoomData): Promise<RoomData> => {
+  if (!room.encrypted || !room.ciphertext) return room;
+  try {
+    const secret: SealedRoomFields = JSON.parse(await openText(room.id, room.ciphertext));
+    return { ...room, ...secret, ciphertext: undefined };
+  } catch (e) {
+    console.warn("[Crypto] Could not decrypt room", room.id, e);
+    return room;
+  }
+};
+
+export const isLockedRoom = (room: RoomData | null): boolean => Boolean(room?.encrypted && room.ciphertext);
+
+// ==================== MESSAGES ====================
+// Chat rows keep their id, role and timestamps in the clear; text and sender name are sealed
+
+export const sealMessage = async (roomId: string, message: ChatMessage): Promise<ChatMessage> => {
+  if (!hasRoomKey(roomId)) return message;
+  return {
+    ...message,
+    text: await sealText(roomId, message.text),
+    senderLabel: message.senderLabel && (await sealText(roomId, message.senderLabel)),
+  };
+};
+
+// null if the message can't be decrypted
+export const openMessage = async (roomId: string, message: ChatMessage): Promise<ChatMessage | null> => {
+  try {
+    return {
+      ...message,
+      text: await openText(roomId, message.text),
+      senderLabel: message.senderLabel && (await openText(roomId, message.senderLabel)),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// ==================== HISTORY ====================
+
+export const sealVersion = async (version: RoomVersion): Promise<RoomVersion> => {
+  if (!hasRoomKey(version.roomId)) return version;
+  const secret = { content: version.content, messages: version.messages, lastEditor: version.lastEditor, pages: version.pages };
+  return {
+    ...version,
+    content: "",
+    messages: [],
+    lastEditor: undefined,
+    pages: undefined,
+    ciphertext: await sealText(version.roomId, JSON.stringify(secret)),
+  };
+};
+
+// Versions that can't be decrypted (other key, or none) are dropped by the caller
+export const openVersion = async (version: RoomVersion): Promise<RoomVersion | null> => {
+  if (!version.ciphertext) return version;
+  try {
+    return { ...version, ...JSON.parse(await openText(version.roomId, version.ciphertext)), ciphertext: undefined };
+  } catch {
+    return null;
+  }
+};
+
+// ==================== AI CONSENT ====================
+// Sending an encrypted room to an AI provider exposes plaintext, so it is opt-in per room
+
+export const hasAIConsent = (roomId: string): boolean =>
+  !hasRoomKey(roomId) || localStorage.getItem(`${AI_CONSENT_PREFIX}${roomId}`) === "1";
+
+export const grantAIConsent = (roomId: string) => {
+  localStorage.setItem(`${AI_CONSENT_PREFIX}${roomId}`, "1");
+};
@@ -0,0 +1,164 @@
+/**
+ * EXPORT
+ *
+ * Gets a room out of the app as files that can be attached to tickets or
+ * archived: the notes as markdown, a standalone HTML page rendered with the
+ * same markdown pipeline as the chat, a PDF (that page through the browser's
+ * print dialog) and a JSON bundle of the whole room with its chat transcript.
+ */
+
+import { RoomData, MessageRole } from "../types";
+import { listPages } from "./pageService";
+import { renderMarkdown, escapeHtml } from "./markdownService";
+
+export type ExportFormat = "md" | "html" | "pdf" | "json";
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: "md", label: "Markdown", description: "Notes as a .md file" },
+  { format: "html", label: "HTML", description: "Rendered notes, one standalone file" },
+  { format: "pdf", label: "PDF", description: "Printable notes (Save as PDF)" },
+  { format: "json", label: "JSON bundle", description: "Notes, pages and full chat transcript" },
+];
+
+// Bumped when the bundle layout changes, so importers can tell versions apart
+export const BUNDLE_VERSION = 1;
+
+export interface RoomExportBundle {
+  format: "noteai-room";
+  version: number;
+  exportedAt: string; // ISO date
+  room: RoomData;
+  transcript: { sender: string; role: MessageRole; text: string; timestamp: number; time: string }[];
+}
+
+// ==================== CONTENT ====================
+
+// The notes of every page; with several pages each one starts with its title as a heading
+export const notesToMarkdown = (room: RoomData): string => {
+  const pages = listPages(room);
+  if (pages.length === 1) return pages[0].content;
+  return pages.map(page => `# ${page.title}\n\n${page.content.trim()}\n`).join("\n---\n\n");
+};
+
+// Minimal light stylesheet so the file reads well on its own and on paper
+const EXPORT_STYLES = `
+  body { font-family: -apple-system, "Helvetica Neue", Helvetica, Arial, sans-serif; color: #1e293b; line-height: 1.65; max-width: 760px; margin: 40px auto; padding: 0 24px; }
+  header { color: #64748b; font-size: 13px; border-bottom: 1px solid #e2e8f0; padding-bottom: 12px; margin-bottom: 28px; }
+  section + section { border-top: 1px solid #e2e8f0; margin-top: 36px; padding-top: 8px; }
+  h1, h2, h3, h4 { line-height: 1.3; margin: 1.4em 0 0.5em; }
+  a { color: #2563eb; }
+  blockquote { border-left: 3px solid #e2e8f0; margin-left: 0; padding-left: 1em; color: #64748b; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #e2e8f0; padding: 0.35em 0.75em; }
+  th { background: #f8fafc; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.88em; background: #f1f5f9; padding: 2px 5px; border-radius: 4px; }
+  pre { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 0.8em 1em; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  li:has(> .task-checkbox) { list-style: none; margin-left: -1.3em; }
+  .hljs-comment, .hljs-quote { color: #6a737d; font-style: italic; }
+  .hljs-keyword, .hljs-selector-tag, .hljs-doctag { color: #d73a49; }
+  .hljs-string, .hljs-regexp, .hljs-addition { color: #032f62; }
+  .hljs-number, .hljs-literal, .hljs-attr, .hljs-variable, .hljs-template-variable { color: #005cc5; }
+  .hljs-title, .hljs-section { color: #6f42c1; }
+  .hljs-built_in, .hljs-type, .hljs-name, .hljs-tag { color: #22863a; }
+  .hljs-meta, .hljs-symbol, .hljs-bullet { color: #e36209; }
+  .hljs-deletion { color: #b31d28; }
+  @media print { body { margin: 0; max-width: none; } pre { white-space: pre-wrap; } }
+`;
+
+// A complete HTML document of the rendered notes
+export const notesToHtml = (room: RoomData): string => {
+  const pages = listPages(room);
+  const sections = pages.map(page => {
+    const title = pages.length > 1 ? `<h1>${escapeHtml(page.title)}</h1>\n` : "";
+    return `<section>\n${title}${renderMarkdown(page.content)}\n</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(room.id)}</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body>
+<header>noteai / ${escapeHtml(room.id)} &middot; exported ${escapeHtml(new Date().toLocaleString())}</header>
+${sections.join("\n")}
+</body>
+</html>
+`;
+};
+
+// The whole room as data. Access hashes stay out of the file - protection isn't portable.
+export const roomToBundle = (room: RoomData): RoomExportBundle => {
+  const { access: _access, ciphertext: _ciphertext, encrypted: _encrypted, ...rest } = room;
+  const messages = room.messages.filter(m => !m.isStreaming);
+  return {
+    format: "noteai-room",
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    room: { ...rest, messages },
+    transcript: messages.map(m => ({
+      sender: m.role === MessageRole.MODEL ? m.senderLabel || "AI" : m.senderLabel || "Guest",
+      role: m.role,
+      text: m.text,
+      timestamp: m.timestamp,
+      time: new Date(m.timestamp).toISOString(),
+    })),
+  };
+};
+
+// ==================== FILES ====================
+
+// Safe file name from a room id, e.g. "noteai-my-room-2026-10-19.md"
+const fileName = (roomId: string, extension: string): string => {
+  const safeId = roomId.replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") || "room";
+  return `noteai-${safeId}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+const downloadFile = (name: string, contents: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Prints `html` from a hidden frame; the browser's dialog offers "Save as PDF"
+const printHtml = (html: string) => {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.addEventListener("afterprint", () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  document.body.appendChild(frame);
+};
+
+export const exportRoom = (room: RoomData, format: ExportFormat) => {
+  switch (format) {
+    case "md":
+      downloadFile(fileName(room.id, "md"), notesToMarkdown(room), "text/markdown;charset=utf-8");
+      break;
+    case "html":
+      downloadFile(fileName(room.id, "html"), notesToHtml(room), "text/html;charset=utf-8");
+      break;
+    case "pdf":
+      printHtml(notesToHtml(room));
+      break;
+    case "json":
+      downloadFile(fileName(room.id, "json"), JSON.stringify(roomToBundle(room), null, 2), "application/json");
+      break;
+  }
+};
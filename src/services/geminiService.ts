@@ -1,73 +1,77 @@
 import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { ChatMessage, MessageRole } from "../types";
+import { AIProvider, AISettings, ChatMessage } from "../types";
+import { SYSTEM_INSTRUCTION, wrapWithContext, recentHistory } from "./promptService";
 
 // Pull the key from Vite-exposed env (frontend-safe) instead of process.env
 const API_KEY = import.meta.env.VITE_API_KEY;
-if (!API_KEY) {
-  console.error("Missing VITE_API_KEY. Define it in a .env file.");
-}
 
-const ai = new GoogleGenAI({ apiKey: API_KEY ?? "" });
-const MODEL_NAME = 'gemini-2.5-flash';
+let ai: GoogleGenAI | null = null;
 
-export const streamAIResponse = async (
+const getClient = () => {
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: API_KEY ?? "" });
+  }
+  return ai;
+};
+
+const streamResponse = async (
   history: ChatMessage[],
   currentContext: string,
   userPrompt: string,
-  onChunk: (text: string) => void
+  onChunk: (text: string) => void,
+  settings: AISettings,
+  signal?: AbortSignal,
+  onUsage?: (usage: { input: number; output: number }) => void
 ): Promise<string> => {
+  let fullText = "";
   try {
-    // We do NOT set systemInstruction here heavily because we want dynamic context per message.
-    // Instead, we inject context into the user message invisible wrapper.
-    const systemInstruction = `You are an AI assistant embedded in a text editor named PadAI. 
-    Your goal is to help the user write, edit, and understand their notes.
-    Be concise, direct, and helpful. Use plain text or simple markdown.`;
+    if (!API_KEY) {
+      throw new Error("Missing VITE_API_KEY");
+    }
 
-    // Filter history to last 12 messages to maintain context window
-    const recentHistory = history
-      .filter(m => !m.isStreaming) // Don't include currently streaming messages
-      .slice(-12)
-      .map(msg => ({
-        role: msg.role === MessageRole.USER ? 'user' : 'model',
-        parts: [{ text: msg.text }]
-      }));
+    // Gemini calls the assistant role "model"
+    const chatHistory = recentHistory(history).map(msg => ({
+      role: msg.role === "user" ? "user" : "model",
+      parts: [{ text: msg.content }]
+    }));
 
-    const chat = ai.chats.create({
-      model: MODEL_NAME,
+    const chat = getClient().chats.create({
+      model: settings.model || geminiProvider.defaultModel,
       config: {
-        systemInstruction: systemInstruction,
+        systemInstruction: SYSTEM_INSTRUCTION,
+        temperature: settings.temperature,
+        maxOutputTokens: settings.maxTokens,
       },
-      history: recentHistory,
+      history: chatHistory,
     });
 
-    // We wrap the user prompt with the CURRENT context of the document.
-    // This ensures the AI sees edits made *after* the previous message.
-    const messageWithContext = `
-[CURRENT DOCUMENT CONTENT START]
-${currentContext}
-[CURRENT DOCUMENT CONTENT END]
-
-User Query: ${userPrompt}
-    `;
-
-    const result = await chat.sendMessageStream({ message: messageWithContext });
+    const result = await chat.sendMessageStream({
+      message: wrapWithContext(currentContext, userPrompt),
+      config: { abortSignal: signal },
+    });
 
-    let fullText = "";
     for await (const chunk of result) {
+      if (signal?.aborted) break;
       const c = chunk as GenerateContentResponse;
+      if (c.usageMetadata?.promptTokenCount) {
+        onUsage?.({ input: c.usageMetadata.promptTokenCount, output: c.usageMetadata.candidatesTokenCount ?? 0 });
+      }
       if (c.text) {
         fullText += c.text;
         onChunk(fullText);
       }
     }
-    
+
     return fullText;
 
   } catch (error: any) {
+    // Stopped by the user - keep what we have
+    if (signal?.aborted) return fullText;
+
     console.error("Gemini API Error:", error);
-    
+
     let errorText = "Error: Unable to reach AI service.";
-    
+
     if (!API_KEY) {
       errorText = "Error: Missing API Key. Please check VITE_API_KEY in your .env file.";
     } else if (error.message?.includes('429')) {
@@ -75,8 +79,19 @@ User Query: ${userPrompt}
     } else if (error.message?.includes('403')) {
       errorText = "Error: API Key invalid or restricted.";
     }
-    
+
     onChunk(errorText);
     return errorText;
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: AIProvider = {
+  id: "gemini",
+  label: "Gemini",
+  defaultModel: "gemini-2.5-flash",
+  suggestedModels: ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.0-flash"],
+  isConfigured: () => Boolean(API_KEY),
+  // Every current Gemini model takes about a million tokens
+  contextWindow: () => 1048576,
+  streamResponse,
+};
@@ -0,0 +1,98 @@
+/**
+ * VERSION HISTORY SERVICE
+ *
+ * Periodic snapshots of a room (content + pages + messages + last editor) so that
+ * cleared notes or wiped chats can be restored. Snapshots are kept by the
+ * room's backend (`room_versions` in Supabase or the relay, IndexedDB when
+ * the room is local only).
+ */
+
+import { RoomData, RoomVersion, RoomPage } from "../types";
+import { backend } from "./syncService";
+import { sealVersion, openVersion } from "./encryptionService";
+import { listPages } from "./pageService";
+
+// How often a room with unsaved-to-history changes is snapshotted
+export const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+// How many snapshots the history panel lists
+const MAX_LISTED_VERSIONS = 50;
+
+// ==================== SNAPSHOTS ====================
+
+export const createSnapshot = (room: RoomData, reason: string): RoomVersion => ({
+  id: `${room.id}-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+  roomId: room.id,
+  content: room.content,
+  messages: room.messages.filter(m => !m.isStreaming),
+  lastEditor: room.lastEditor,
+  // CRDT state is left out - a restore is applied as a fresh edit
+  pages: room.pages ? listPages(room).map(({ docState, ...page }) => page) : undefined,
+  createdAt: Date.now(),
+  reason,
+});
+
+const pagesText = (pages?: RoomPage[]): string =>
+  JSON.stringify((pages || []).map(page => [page.id, page.title, page.content]));
+
+// True if the snapshot already captures the room as it is now
+export const isSameAsSnapshot = (room: RoomData, version: RoomVersion | null): boolean => {
+  if (!version) return false;
+  const messages = room.messages.filter(m => !m.isStreaming);
+  return (
+    version.content === room.content &&
+    pagesText(version.pages) === pagesText(room.pages ? listPages(room) : undefined) &&
+    version.messages.length === messages.length &&
+    version.messages[version.messages.length - 1]?.id === messages[messages.length - 1]?.id
+  );
+};
+
+export const saveVersion = async (plainVersion: RoomVersion): Promise<boolean> =>
+  backend.saveVersion(await sealVersion(plainVersion));
+
+// Newest first; encrypted snapshots we can't decrypt are left out
+export const listVersions = async (roomId: string): Promise<RoomVersion[]> => {
+  const versions = await backend.fetchVersions(roomId, MAX_LISTED_VERSIONS);
+  const opened = await Promise.all(versions.map(openVersion));
+  return opened.filter((v): v is RoomVersion => v !== null);
+};
+
+// ==================== LINE DIFF ====================
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// Line-based LCS diff from `oldText` to `newText`
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = oldText.split("\n");
+  const b = newText.split("\n");
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", text: a[i++] });
+    } else {
+      result.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: "removed", text: a[i++] });
+  while (j < b.length) result.push({ type: "added", text: b[j++] });
+
+  return result;
+};
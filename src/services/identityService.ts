@@ -0,0 +1,182 @@
+/**
+ * IDENTITY
+ *
+ * Who this client is in presence, chat (`senderLabel`) and `lastEditor`.
+ * Without an account the identity is per browser: a random id plus a name and
+ * color the user can change. Signing in with a Supabase Auth magic link swaps
+ * the id for the account's, and the name and color are kept in the account's
+ * metadata so they follow the user to every device.
+ */
+
+import { ClientIdentity } from "../types";
+import { getClient, hasSupabase } from "./supabaseBackend";
+
+const CLIENT_ID_KEY = "padai_client_id";
+const CLIENT_LABEL_KEY = "padai_client_label";
+const CLIENT_COLOR_KEY = "padai_client_color";
+const ACCOUNT_KEY = "padai_account"; // { id, email } of the signed-in user, cached for synchronous reads
+const RETURN_KEY = "padai_sign_in_return"; // full route (with room key / view token) to restore after a sign-in link
+
+export const IDENTITY_COLORS = [
+  '#ef4444', '#f97316', '#f59e0b', '#84cc16', '#10b981', '#06b6d4', '#0ea5e9', '#3b82f6', '#6366f1', '#8b5cf6', '#d946ef', '#ec4899'
+];
+
+const SESSION_TIMEOUT_MS = 5000;
+
+// Magic-link sign-in needs Supabase (a local `supabase start` stack works too)
+export const canSignIn = hasSupabase;
+
+const ADJECTIVES = ["Happy", "Quiet", "Bright", "Swift", "Calm", "Eager", "Wise", "Bold"];
+const ANIMALS = ["Fox", "Owl", "Bear", "Cat", "Wolf", "Hawk", "Lion", "Tiger"];
+
+const generateName = () => {
+  const adj = ADJECTIVES[Math.floor(Math.random() * ADJECTIVES.length)];
+  const animal = ANIMALS[Math.floor(Math.random() * ANIMALS.length)];
+  return `${adj} ${animal}`;
+};
+
+// Stable default color for an id, so people keep theirs until they pick one
+const colorForId = (id: string): string => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = id.charCodeAt(i) + ((hash << 5) - hash);
+  }
+  return IDENTITY_COLORS[Math.abs(hash) % IDENTITY_COLORS.length];
+};
+
+// ==================== READING ====================
+
+// This browser's own id, kept even while signed in (rooms created before signing in are owned by it)
+export const getDeviceId = (): string => {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = Math.random().toString(36).substring(2, 7);
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+const getAccount = (): { id: string; email?: string } | null => {
+  try {
+    return JSON.parse(localStorage.getItem(ACCOUNT_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+export const getClientIdentity = (): ClientIdentity => {
+  const deviceId = getDeviceId();
+  const account = getAccount();
+  const id = account?.id || deviceId;
+
+  let label = localStorage.getItem(CLIENT_LABEL_KEY);
+  if (!label || label.startsWith('Guest-')) {
+    label = generateName();
+    localStorage.setItem(CLIENT_LABEL_KEY, label);
+  }
+
+  const color = localStorage.getItem(CLIENT_COLOR_KEY) || colorForId(id);
+  return { id, label, color, deviceId, email: account?.email };
+};
+
+// ==================== WRITING ====================
+
+// Saves the name and color here and, when signed in, to the account
+export const saveProfile = async (profile: { label: string; color: string }): Promise<ClientIdentity> => {
+  const label = profile.label.trim().slice(0, 40) || getClientIdentity().label;
+  localStorage.setItem(CLIENT_LABEL_KEY, label);
+  localStorage.setItem(CLIENT_COLOR_KEY, profile.color);
+
+  const supabase = getClient();
+  if (supabase && getAccount()) {
+    const { error } = await supabase.auth.updateUser({ data: { name: label, color: profile.color } });
+    if (error) console.warn("[Identity] Could not save the profile to the account:", error.message);
+  }
+  return getClientIdentity();
+};
+
+// ==================== ACCOUNT ====================
+
+// A hash route without the room key and view token: the redirect URL goes through Supabase Auth
+// and into the email, and an end-to-end key must never reach a server
+const withoutSecrets = (hash: string): string => {
+  const [route, query = ""] = hash.split("?");
+  const params = new URLSearchParams(query);
+  params.delete("key");
+  params.delete("view");
+  const rest = params.toString();
+  return rest ? `${route}?${rest}` : route;
+};
+
+// Emails a sign-in link that brings the user back to this page. The secrets stay in this tab
+// and are put back when the link is opened here.
+export const sendMagicLink = async (email: string): Promise<string | null> => {
+  const supabase = getClient();
+  if (!supabase) return "Sign-in is not available here";
+  const { hash, origin, pathname } = window.location;
+  if (withoutSecrets(hash) !== hash) sessionStorage.setItem(RETURN_KEY, hash);
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: `${origin}${pathname}${withoutSecrets(hash)}` },
+  });
+  return error ? error.message : null;
+};
+
+export const signOut = async () => {
+  localStorage.removeItem(ACCOUNT_KEY);
+  await getClient()?.auth.signOut();
+};
+
+// Picks up the session (finishing a magic link sign-in if the URL carries one) before any
+// room opens, so the account id is used from the first presence update on
+export const initIdentity = async (): Promise<void> => {
+  const supabase = getClient();
+  if (!supabase) return;
+
+  try {
+    // An expired session is refreshed over the network - don't hold the app up for long if that hangs
+    const result = await Promise.race([
+      supabase.auth.getSession(),
+      new Promise<null>(resolve => setTimeout(() => resolve(null), SESSION_TIMEOUT_MS)),
+    ]);
+    if (!result) {
+      console.warn("[Identity] Timed out restoring the sign-in session");
+      return;
+    }
+    const user = result.data.session?.user;
+
+    // The one-time code from the link has been exchanged - drop it from the address bar
+    const url = new URL(window.location.href);
+    if (url.searchParams.has("code")) {
+      url.searchParams.delete("code");
+      window.history.replaceState(null, "", url.toString());
+    }
+
+    // Back in the tab that asked for the link: restore the key / view token the link left out
+    const returnTo = sessionStorage.getItem(RETURN_KEY);
+    if (returnTo && user) {
+      sessionStorage.removeItem(RETURN_KEY);
+      if (withoutSecrets(returnTo) === window.location.hash) {
+        window.history.replaceState(null, "", `${window.location.pathname}${window.location.search}${returnTo}`);
+      }
+    }
+
+    // Signed out (or the session ended elsewhere); an unreachable server keeps the cached account
+    if (!user) {
+      if (!result.error) localStorage.removeItem(ACCOUNT_KEY);
+      return;
+    }
+    localStorage.setItem(ACCOUNT_KEY, JSON.stringify({ id: user.id, email: user.email }));
+
+    // The account's name and color win; a first sign-in carries this browser's over
+    const meta = user.user_metadata || {};
+    if (meta.name) localStorage.setItem(CLIENT_LABEL_KEY, meta.name);
+    if (meta.color) localStorage.setItem(CLIENT_COLOR_KEY, meta.color);
+    if (!meta.name || !meta.color) {
+      const { label, color } = getClientIdentity();
+      await saveProfile({ label, color });
+    }
+  } catch (e) {
+    console.warn("[Identity] Could not restore the sign-in session", e);
+  }
+};
@@ -0,0 +1,138 @@
+/**
+ * IMPORT
+ *
+ * Turns a dropped or picked file into something a room can take: Markdown and
+ * text as-is, HTML and Word (.docx) converted to markdown, and a JSON bundle
+ * made by Export restored as a whole room (notes, pages and chat).
+ * Imports started on the home page are handed to the room view they open.
+ */
+
+import TurndownService from "turndown";
+import { RoomData, RoomPage, ChatMessage } from "../types";
+import { listPages } from "./pageService";
+
+export type ImportedFile =
+  | { kind: "document"; fileName: string; title: string; content: string }
+  | { kind: "bundle"; fileName: string; room: RoomData };
+
+// How an import meets a room that already has content. For a JSON bundle "append"
+// adds its pages and chat; "new-page" only applies to documents.
+export type ImportMode = "replace" | "append" | "new-page";
+
+// For <input type="file" accept>
+export const IMPORT_ACCEPT = ".md,.markdown,.txt,.text,.html,.htm,.docx,.json";
+
+// ==================== CONVERSION ====================
+
+const turndown = new TurndownService({
+  headingStyle: "atx",
+  codeBlockStyle: "fenced",
+  bulletListMarker: "-",
+  emDelimiter: "_",
+});
+// Leave page furniture out of the notes
+turndown.remove(["script", "style", "noscript", "head", "title"]);
+
+// Markdown for an HTML string (a full document or a fragment)
+export const htmlToMarkdown = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return turndown.turndown(doc.body).trim() + "\n";
+};
+
+const docxToMarkdown = async (file: File): Promise<string> => {
+  // mammoth is large and rarely needed, so it is only loaded for Word files
+  const mammoth = await import("mammoth");
+  const { value } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+  return htmlToMarkdown(value);
+};
+
+const extensionOf = (name: string): string => name.toLowerCase().split(".").pop() || "";
+
+// File name without its extension, e.g. "Q3 retro.docx" -> "Q3 retro"
+const titleOf = (name: string): string => name.replace(/\.[^.]+$/, "").trim() || "Imported";
+
+const isMessage = (value: unknown): value is ChatMessage => {
+  const m = value as ChatMessage;
+  return Boolean(m) && typeof m.id === "string" && typeof m.text === "string" && typeof m.timestamp === "number";
+};
+
+// Room fields from an exported bundle, or a bare RoomData object; anything else is rejected
+const parseBundle = (text: string): RoomData => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("This JSON file could not be read");
+  }
+
+  const source = parsed as { format?: string; room?: RoomData } & Partial<RoomData>;
+  const room = source.format === "noteai-room" ? source.room : (source as RoomData);
+  if (!room || typeof room.content !== "string") {
+    throw new Error("This JSON file is not a noteai export");
+  }
+
+  const pages = Array.isArray(room.pages)
+    ? room.pages.filter((p: RoomPage) => p && typeof p.id === "string" && typeof p.title === "string")
+    : undefined;
+  return {
+    id: typeof room.id === "string" ? room.id : "",
+    content: room.content,
+    messages: Array.isArray(room.messages) ? room.messages.filter(isMessage).map(({ seq: _seq, isStreaming: _streaming, ...m }) => m) : [],
+    updatedAt: typeof room.updatedAt === "number" ? room.updatedAt : Date.now(),
+    pages: pages?.map(p => ({ id: p.id, title: p.title, content: typeof p.content === "string" ? p.content : "" })),
+  };
+};
+
+// Reads `file`; throws with a readable message for unsupported or broken files
+export const readImportFile = async (file: File): Promise<ImportedFile> => {
+  const extension = extensionOf(file.name);
+  const title = titleOf(file.name);
+
+  switch (extension) {
+    case "md":
+    case "markdown":
+    case "txt":
+    case "text":
+      return { kind: "document", fileName: file.name, title, content: await file.text() };
+    case "html":
+    case "htm":
+      return { kind: "document", fileName: file.name, title, content: htmlToMarkdown(await file.text()) };
+    case "docx":
+      try {
+        return { kind: "document", fileName: file.name, title, content: await docxToMarkdown(file) };
+      } catch (e) {
+        console.warn("[noteai] Could not convert Word file", e);
+        throw new Error("This Word file could not be converted");
+      }
+    case "json":
+      return { kind: "bundle", fileName: file.name, room: parseBundle(await file.text()) };
+    default:
+      throw new Error(`.${extension || "?"} files can't be imported - use Markdown, text, HTML, Word (.docx) or a noteai JSON export`);
+  }
+};
+
+// The pages a bundle restores, the main page filled in from its room fields
+export const bundlePages = (room: RoomData): RoomPage[] => listPages(room).map(({ id, title, content }) => ({ id, title, content }));
+
+// Room id suggested for a file imported from the home page
+export const suggestRoomId = (imported: ImportedFile): string => {
+  const base = imported.kind === "bundle" && imported.room.id ? imported.room.id : titleOf(imported.fileName);
+  return base.toLowerCase().replace(/[^a-z0-9-]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+};
+
+// ==================== HAND-OFF ====================
+
+// An import chosen on the home page, waiting for its room to open
+let pendingImport: { roomId: string; file: ImportedFile } | null = null;
+
+export const queueImport = (roomId: string, file: ImportedFile) => {
+  pendingImport = { roomId, file };
+};
+
+// The queued import for `roomId`, if any (returned once)
+export const takeQueuedImport = (roomId: string): ImportedFile | null => {
+  if (!pendingImport || pendingImport.roomId !== roomId) return null;
+  const { file } = pendingImport;
+  pendingImport = null;
+  return file;
+};
@@ -0,0 +1,66 @@
+/**
+ * INDEXEDDB HELPERS
+ *
+ * Thin promise wrappers around the browser IndexedDB API for data that is
+ * too large or too structured for localStorage (history snapshots, queues).
+ */
+
+const DB_NAME = "padai";
+const DB_VERSION = 2;
+
+// Every object store is declared here so upgrades happen in one place
+const STORES: Record<string, { keyPath: string; indexes: string[] }> = {
+  room_versions: { keyPath: "id", indexes: ["roomId"] },
+  outbox: { keyPath: "id", indexes: ["roomId"] },
+};
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const hasIndexedDb = typeof indexedDB !== "undefined";
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const [name, { keyPath, indexes }] of Object.entries(STORES)) {
+          if (db.objectStoreNames.contains(name)) continue;
+          const store = db.createObjectStore(name, { keyPath });
+          indexes.forEach(index => store.createIndex(index, index));
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const idbPut = async <T>(store: StoreName, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await runRequest(db.transaction(store, "readwrite").objectStore(store).put(value));
+};
+
+export const idbGetAllByIndex = async <T>(store: StoreName, index: string, key: IDBValidKey): Promise<T[]> => {
+  const db = await openDatabase();
+  return runRequest(db.transaction(store, "readonly").objectStore(store).index(index).getAll(key)) as Promise<T[]>;
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await runRequest(db.transaction(store, "readwrite").objectStore(store).delete(key));
+};
@@ -0,0 +1,163 @@
+/**
+ * INLINE AI ACTIONS
+ *
+ * Selecting text in the notes offers a menu of AI actions (rewrite, shorten,
+ * translate, ...). Actions register themselves here by id, like slash
+ * commands. Most stream their answer straight into the page, in place of the
+ * selection or after it, through CRDT anchors: the text keeps its place while
+ * others type, everyone watches it being written, and the whole action can be
+ * undone in one step. Explain asks in the chat instead.
+ */
+
+import { RoomDocument, AI_INLINE_ORIGIN, diffText } from "./crdtService";
+import { stripEditBlock } from "./suggestionService";
+
+export interface InlineAction {
+  id: string;
+  label: string;
+  // Where the answer goes: over the selection, right after it, or into the chat
+  target: "replace" | "after" | "chat";
+  argsLabel?: string; // asks for an argument first, e.g. the language
+  instruction: (args: string) => string;
+}
+
+const actions = new Map<string, InlineAction>();
+
+export const registerInlineAction = (action: InlineAction) => {
+  actions.set(action.id, action);
+};
+
+export const getInlineAction = (id: string): InlineAction | undefined => actions.get(id);
+
+export const listInlineActions = (): InlineAction[] => Array.from(actions.values());
+
+// ==================== PROMPTS ====================
+
+const REPLY_RULES = `Reply with that text only: no introduction or explanation, no quotes or code fences around it,
+no edits block and no citations. Keep the markdown formatting, and keep the language of the text unless asked to translate it.`;
+
+const quote = (text: string): string => text.trim().split("\n").map(line => `> ${line}`).join("\n");
+
+// What the AI is asked for an action that writes into the notes
+export const inlinePrompt = (action: InlineAction, selection: string, args: string): string =>
+  `${action.instruction(args)}\n\n[SELECTED TEXT START]\n${selection}\n[SELECTED TEXT END]\n\n${REPLY_RULES}`;
+
+// The chat message for an action that answers in the chat; it reads as a normal question,
+// so regenerating or editing it works like any other
+export const inlineChatMessage = (action: InlineAction, selection: string, args: string): string =>
+  `${action.instruction(args)}\n\n${quote(selection)}`;
+
+// The notes around the selection, so the answer fits its surroundings
+export const inlineContext = (content: string, from: number, to: number, maxChars: number): string => {
+  const side = Math.max(0, Math.floor(maxChars / 2));
+  const start = Math.max(0, from - side);
+  const end = Math.min(content.length, to + side);
+  return `${start > 0 ? "…" : ""}${content.slice(start, from)}[SELECTED TEXT]${content.slice(to, end)}${end < content.length ? "…" : ""}`;
+};
+
+// One line for the chat transcript, so everyone sees what was done to the notes
+export const inlineLogMessage = (action: InlineAction, selection: string, args: string, pageTitle: string): string => {
+  const excerpt = selection.trim().replace(/\s+/g, " ");
+  const shown = excerpt.length > 80 ? `${excerpt.slice(0, 80)}…` : excerpt;
+  return `✨ **${action.label}${args ? ` (${args})` : ""}** in "${pageTitle}": _${shown}_`;
+};
+
+// ==================== WRITING ====================
+
+// Models sometimes fence the text anyway; a (partial) edits block is never written
+const cleanAnswer = (text: string): string =>
+  stripEditBlock(text).replace(/^\s*```[\w-]*\n/, "").replace(/\n?```\s*$/, "");
+
+// What goes into the page for the answer so far. A replacement keeps the selection's
+// surrounding whitespace; a continuation gets a space when it would run into the selection.
+export const placeAnswer = (action: InlineAction, selection: string, answer: string, isDone: boolean): string => {
+  let text = cleanAnswer(answer).trimStart();
+  if (isDone) text = text.trimEnd();
+  if (action.target === "after") {
+    return text && !/\s$/.test(selection) ? ` ${text}` : text;
+  }
+  const lead = selection.match(/^\s*/)![0];
+  const trail = selection.match(/\s*$/)![0];
+  return `${lead}${text}${trail}`;
+};
+
+// The stretch of a page an action writes to. The anchors sit on the characters just outside it,
+// so the written text stays between them whatever happens around it.
+export interface InlineRange {
+  start: string;
+  end: string;
+}
+
+export const anchorRange = (doc: RoomDocument, action: InlineAction, from: number, to: number): InlineRange => ({
+  start: doc.createAnchor(action.target === "after" ? to : from, -1),
+  end: doc.createAnchor(to, 0),
+});
+
+export const resolveRange = (doc: RoomDocument, range: InlineRange): { from: number; to: number } | null => {
+  const from = doc.resolveAnchor(range.start);
+  const to = doc.resolveAnchor(range.end);
+  return from === null || to === null || to < from ? null : { from, to };
+};
+
+// Make the range read `text` with the smallest edit (while streaming that is an append); false if nothing changed
+export const writeRange = (doc: RoomDocument, range: InlineRange, text: string): boolean => {
+  const resolved = resolveRange(doc, range);
+  if (!resolved) return false;
+  const change = diffText(doc.toString().slice(resolved.from, resolved.to), text);
+  if (!change) return false;
+  doc.applyChange({ ...change, index: resolved.from + change.index }, AI_INLINE_ORIGIN);
+  return true;
+};
+
+// ==================== BUILT-IN ACTIONS ====================
+
+registerInlineAction({
+  id: "rewrite",
+  label: "Rewrite",
+  target: "replace",
+  instruction: () => "Rewrite the selected text so it reads more clearly, keeping its meaning.",
+});
+
+registerInlineAction({
+  id: "shorten",
+  label: "Shorten",
+  target: "replace",
+  instruction: () => "Make the selected text shorter, keeping every important point.",
+});
+
+registerInlineAction({
+  id: "expand",
+  label: "Expand",
+  target: "replace",
+  instruction: () => "Expand the selected text with more detail and explanation, in the same style.",
+});
+
+registerInlineAction({
+  id: "fix-grammar",
+  label: "Fix grammar",
+  target: "replace",
+  instruction: () => "Fix the spelling, grammar and punctuation of the selected text. Change nothing else.",
+});
+
+registerInlineAction({
+  id: "translate",
+  label: "Translate",
+  target: "replace",
+  argsLabel: "Language",
+  instruction: (args) => `Translate the selected text into ${args}.`,
+});
+
+registerInlineAction({
+  id: "continue",
+  label: "Continue writing",
+  target: "after",
+  instruction: () =>
+    "Continue writing from the end of the selected text, in the same style, for a paragraph or so. Do not repeat the selected text.",
+});
+
+registerInlineAction({
+  id: "explain",
+  label: "Explain",
+  target: "chat",
+  instruction: () => "Explain this passage from the notes:",
+});
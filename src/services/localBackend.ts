@@ -0,0 +1,257 @@
+/**
+ * LOCAL BACKEND
+ *
+ * Keeps rooms and chat in this browser's localStorage and history snapshots
+ * in IndexedDB. Nothing leaves the machine, but tabs of the same room talk to
+ * each other over a BroadcastChannel - stored changes, broadcasts (CRDT edits,
+ * cursors, AI streams) and presence - so they collaborate like separate clients.
+ */
+
+import { RoomData, ChatMessage, RoomVersion } from "../types";
+import { RoomBackend, RoomEvents, RoomSubscription, PresenceState, MESSAGE_PAGE_SIZE } from "./roomBackend";
+import { hasIndexedDb, idbPut, idbGetAllByIndex, idbDelete } from "./indexedDbService";
+import { getStoredRoom } from "./storageService";
+
+const ROOM_PREFIX = "padai_store_room_";
+const MESSAGES_PREFIX = "padai_store_messages_";
+const CHANNEL_PREFIX = "padai_room_";
+
+// Tabs re-announce themselves this often; one not heard from for the timeout is gone
+// (hidden tabs may only run timers once a minute, hence the generous timeout)
+const PRESENCE_HEARTBEAT_MS = 20000;
+const PRESENCE_TIMEOUT_MS = 90000;
+
+// History is capped per room; oldest snapshots are pruned first
+const MAX_LOCAL_VERSIONS = 50;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || "null") ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Returns false when the browser refuses the write (quota, private mode)
+const writeJson = (key: string, value: unknown): boolean => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (e) {
+    console.error("[Sync] Local write failed", e);
+    return false;
+  }
+};
+
+// What tabs of the same room send each other
+type TabFrame =
+  | { type: "room"; room: RoomData }
+  | { type: "message"; message: ChatMessage }
+  | { type: "broadcast"; event: string; payload: any }
+  | { type: "presence"; state: PresenceState }
+  | { type: "hello"; sessionId: string } // a tab opened the room - everyone answers with their presence
+  | { type: "leave"; sessionId: string };
+
+interface OpenRoom {
+  channel: BroadcastChannel | null;
+  events: RoomEvents;
+}
+
+const hasBroadcastChannel = typeof BroadcastChannel !== "undefined";
+
+// Rooms this tab is subscribed to, so writes can be announced to the other tabs
+const openRooms = new Map<string, OpenRoom>();
+
+// ==================== ROOMS ====================
+
+// Rooms opened before backends existed are only in the offline cache (chat included) -
+// syncService moves that chat over on first open
+const fetchRoom = async (roomId: string): Promise<RoomData | null> =>
+  readJson<RoomData | null>(`${ROOM_PREFIX}${roomId}`, null) ?? getStoredRoom(roomId);
+
+const saveRoom = async (room: RoomData): Promise<boolean> => {
+  if (!writeJson(`${ROOM_PREFIX}${room.id}`, room)) return false;
+  openRooms.get(room.id)?.channel?.postMessage({ type: "room", room } satisfies TabFrame);
+  return true;
+};
+
+// ==================== CHAT MESSAGES ====================
+// All of a room's messages under one key, in order; `seq` counts up like the server's
+
+const readMessages = (roomId: string): ChatMessage[] => readJson<ChatMessage[]>(`${MESSAGES_PREFIX}${roomId}`, []);
+
+const saveMessages = async (roomId: string, messages: ChatMessage[], keepExisting = false): Promise<boolean> => {
+  const stored = readMessages(roomId);
+  let nextSeq = stored.reduce((max, m) => Math.max(max, m.seq ?? 0), 0) + 1;
+
+  const changed: ChatMessage[] = [];
+
+  messages.forEach(message => {
+    const index = stored.findIndex(m => m.id === message.id);
+    if (index === -1) {
+      stored.push({ ...message, seq: nextSeq++ });
+      changed.push(stored[stored.length - 1]);
+    } else if (!keepExisting) {
+      stored[index] = { ...message, seq: stored[index].seq };
+      changed.push(stored[index]);
+    }
+  });
+  if (!writeJson(`${MESSAGES_PREFIX}${roomId}`, stored)) return false;
+
+  // Everyone hears about it, us included (that's how our own messages get their seq)
+  const room = openRooms.get(roomId);
+  changed.forEach(message => {
+    room?.channel?.postMessage({ type: "message", message } satisfies TabFrame);
+    room?.events.onMessage(message);
+  });
+  return true;
+};
+
+const fetchMessages = async (
+  roomId: string,
+  beforeSeq?: number,
+  limit = MESSAGE_PAGE_SIZE
+): Promise<{ messages: ChatMessage[]; hasMore: boolean }> => {
+  const older = readMessages(roomId).filter(m => beforeSeq === undefined || (m.seq ?? 0) < beforeSeq);
+  return {
+    messages: older.slice(-limit),
+    hasMore: older.length > limit,
+  };
+};
+
+const deleteMessages = async (roomId: string, ids?: string[]): Promise<boolean> => {
+  if (!ids) {
+    localStorage.removeItem(`${MESSAGES_PREFIX}${roomId}`);
+    return true;
+  }
+  return writeJson(`${MESSAGES_PREFIX}${roomId}`, readMessages(roomId).filter(m => !ids.includes(m.id)));
+};
+
+// ==================== VERSION HISTORY ====================
+
+const saveVersion = async (version: RoomVersion): Promise<boolean> => {
+  if (!hasIndexedDb) return false;
+
+  try {
+    await idbPut("room_versions", version);
+
+    // Prune the oldest snapshots beyond the cap
+    const all = await idbGetAllByIndex<RoomVersion>("room_versions", "roomId", version.roomId);
+    const stale = all.sort((a, b) => b.createdAt - a.createdAt).slice(MAX_LOCAL_VERSIONS);
+    await Promise.all(stale.map(v => idbDelete("room_versions", v.id)));
+    return true;
+  } catch (e) {
+    console.error("[History] Failed to save version", e);
+    return false;
+  }
+};
+
+const fetchVersions = async (roomId: string, limit: number): Promise<RoomVersion[]> => {
+  if (!hasIndexedDb) return [];
+
+  try {
+    const all = await idbGetAllByIndex<RoomVersion>("room_versions", "roomId", roomId);
+    return all.sort((a, b) => b.createdAt - a.createdAt).slice(0, limit);
+  } catch (e) {
+    console.error("[History] Failed to list versions", e);
+    return [];
+  }
+};
+
+// ==================== REALTIME ====================
+
+const subscribe = (roomId: string, sessionId: string, events: RoomEvents): RoomSubscription => {
+  const channel = hasBroadcastChannel ? new BroadcastChannel(`${CHANNEL_PREFIX}${roomId}`) : null;
+  const room: OpenRoom = { channel, events };
+  openRooms.set(roomId, room);
+
+  let self: PresenceState | null = null;
+  const peers = new Map<string, { state: PresenceState; seenAt: number }>();
+
+  const post = (frame: TabFrame) => channel?.postMessage(frame);
+  const clients = (): PresenceState[] => [...(self ? [self] : []), ...Array.from(peers.values(), peer => peer.state)];
+  const announce = () => {
+    if (self) post({ type: "presence", state: self });
+  };
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<TabFrame>) => {
+      const frame = event.data;
+      switch (frame.type) {
+        case "room":
+          events.onRoom(frame.room);
+          break;
+        case "message":
+          events.onMessage(frame.message);
+          break;
+        case "broadcast":
+          events.onBroadcast(frame.event, frame.payload);
+          break;
+        case "hello":
+          announce();
+          events.onJoin(frame.sessionId);
+          break;
+        case "presence":
+          peers.set(frame.state.sessionId, { state: frame.state, seenAt: Date.now() });
+          events.onPresence(clients());
+          break;
+        case "leave":
+          if (peers.delete(frame.sessionId)) events.onPresence(clients());
+          break;
+      }
+    };
+  }
+
+  // Tabs that crash or are killed never say goodbye - forget them once they go quiet
+  const heartbeat = setInterval(() => {
+    announce();
+    const now = Date.now();
+    let isChanged = false;
+    peers.forEach((peer, id) => {
+      if (now - peer.seenAt < PRESENCE_TIMEOUT_MS) return;
+      peers.delete(id);
+      isChanged = true;
+    });
+    if (isChanged) events.onPresence(clients());
+  }, PRESENCE_HEARTBEAT_MS);
+
+  const leave = () => post({ type: "leave", sessionId });
+  window.addEventListener("pagehide", leave);
+
+  // Always reachable - report it once the caller has finished wiring up, then meet the other tabs
+  const ready = setTimeout(() => {
+    events.onStatus("connected");
+    post({ type: "hello", sessionId });
+  }, 0);
+
+  return {
+    broadcast: (event, payload) => post({ type: "broadcast", event, payload }),
+    track: async (state) => {
+      self = state;
+      announce();
+      events.onPresence(clients());
+    },
+    presence: clients,
+    close: () => {
+      clearTimeout(ready);
+      clearInterval(heartbeat);
+      window.removeEventListener("pagehide", leave);
+      leave();
+      channel?.close();
+      if (openRooms.get(roomId) === room) openRooms.delete(roomId);
+    },
+  };
+};
+
+export const localBackend: RoomBackend = {
+  name: "local",
+  isLocal: true,
+  fetchRoom,
+  saveRoom,
+  fetchMessages,
+  saveMessages,
+  deleteMessages,
+  saveVersion,
+  fetchVersions,
+  subscribe,
+};
@@ -0,0 +1,279 @@
+/**
+ * MARKDOWN SERVICE
+ *
+ * Rendering shared by the chat bubbles and the notes preview (marked +
+ * DOMPurify, GFM tables and task lists, highlight.js for fenced code), plus
+ * the plain-text helpers behind the notes toolbar: toggling task checkboxes
+ * and applying formatting to a selection.
+ */
+
+import { Marked, Renderer, Token } from "marked";
+import DOMPurify from "dompurify";
+import hljs from "highlight.js/lib/core";
+import bash from "highlight.js/lib/languages/bash";
+import css from "highlight.js/lib/languages/css";
+import go from "highlight.js/lib/languages/go";
+import java from "highlight.js/lib/languages/java";
+import javascript from "highlight.js/lib/languages/javascript";
+import json from "highlight.js/lib/languages/json";
+import markdown from "highlight.js/lib/languages/markdown";
+import python from "highlight.js/lib/languages/python";
+import rust from "highlight.js/lib/languages/rust";
+import sql from "highlight.js/lib/languages/sql";
+import typescript from "highlight.js/lib/languages/typescript";
+import xml from "highlight.js/lib/languages/xml";
+import yaml from "highlight.js/lib/languages/yaml";
+
+// A small set of languages keeps the bundle lean; others render as plain code
+const LANGUAGES = { bash, css, go, java, javascript, json, markdown, python, rust, sql, typescript, xml, yaml };
+Object.entries(LANGUAGES).forEach(([name, language]) => hljs.registerLanguage(name, language));
+hljs.registerAliases(["sh", "shell", "zsh"], { languageName: "bash" });
+hljs.registerAliases(["js", "jsx"], { languageName: "javascript" });
+hljs.registerAliases(["ts", "tsx"], { languageName: "typescript" });
+hljs.registerAliases(["html", "svg"], { languageName: "xml" });
+hljs.registerAliases(["py"], { languageName: "python" });
+hljs.registerAliases(["yml"], { languageName: "yaml" });
+hljs.registerAliases(["md"], { languageName: "markdown" });
+
+// ==================== RENDERING ====================
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const highlightCode = (code: string, infostring?: string): string => {
+  const language = (infostring || "").trim().split(/\s+/)[0];
+  const html = language && hljs.getLanguage(language)
+    ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+    : escapeHtml(code);
+  return `<pre><code class="hljs${language ? ` language-${escapeHtml(language)}` : ""}">${html}</code></pre>\n`;
+};
+
+// Preview checkboxes are numbered as they are rendered (parsing is synchronous, so a counter
+// reset before each parse is enough); the number is the task's index in findTaskMarkers
+let taskIndex = 0;
+
+const createMarked = (interactiveTasks: boolean): Marked => {
+  const renderer = new Renderer();
+  renderer.code = (code, infostring) => highlightCode(code, infostring);
+  // Preview checkboxes are clickable and toggle the text; in chat they stay read-only
+  renderer.checkbox = (checked) =>
+    `<input type="checkbox" class="task-checkbox"${checked ? " checked" : ""}${
+      interactiveTasks ? ` data-task="${taskIndex++}"` : " disabled"
+    }> `;
+  return new Marked({ gfm: true, breaks: true, renderer });
+};
+
+const chatMarked = createMarked(false);
+const previewMarked = createMarked(true);
+
+// Sanitized HTML for `text`; `interactiveTasks` leaves task checkboxes enabled (notes preview)
+export const renderMarkdown = (text: string, interactiveTasks = false): string => {
+  const instance = interactiveTasks ? previewMarked : chatMarked;
+  taskIndex = 0;
+  return DOMPurify.sanitize(instance.parse(text || "", { async: false }) as string);
+};
+
+// ==================== TASK LISTS ====================
+
+const TASK_MARKER = /^\s*(?:[-*+]|\d+[.)])\s+\[[ xX]\]/;
+
+// Where a token that starts at `at` ends: past as many lines as its text spans
+const skipLines = (content: string, at: number, raw: string): number => {
+  let offset = at;
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] !== "\n") continue;
+    const next = content.indexOf("\n", offset);
+    offset = next === -1 ? content.length : next + 1;
+  }
+  return offset;
+};
+
+// Offset of the character inside each task's brackets, in the order the preview renders them.
+// The tasks come from marked's own tokens, so code blocks, HTML and anything else the preview
+// doesn't draw a checkbox for never count. Nested tokens hold their text with the list indent
+// and "> " stripped, so each is found by its first line (a suffix of the real one) from where the
+// previous one ended.
+export const findTaskMarkers = (content: string): number[] => {
+  const markers: number[] = [];
+
+  const walk = (tokens: Token[], from: number) => {
+    let cursor = from;
+    for (const token of tokens) {
+      const firstLine = token.raw.split("\n")[0];
+      const found = firstLine ? content.indexOf(firstLine, cursor) : cursor;
+      if (found === -1) continue;
+
+      if (token.type === "list_item" && token.task) {
+        const marker = firstLine.match(TASK_MARKER);
+        if (marker) markers.push(found + marker[0].length - 2);
+      }
+      if (token.type === "list") walk(token.items, found);
+      else if (token.type === "list_item" || token.type === "blockquote") walk(token.tokens, found);
+
+      cursor = skipLines(content, found, token.raw);
+    }
+  };
+
+  walk(previewMarked.lexer(content), 0);
+  return markers;
+};
+
+// Check or uncheck the `index`-th task (null if there is no such task)
+export const toggleTask = (content: string, index: number): string | null => {
+  const marker = findTaskMarkers(content)[index];
+  if (marker === undefined) return null;
+  const next = content[marker] === " " ? "x" : " ";
+  return content.slice(0, marker) + next + content.slice(marker + 1);
+};
+
+// ==================== FORMATTING ====================
+
+export interface TextSelection {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export type FormatAction =
+  | "bold"
+  | "italic"
+  | "strike"
+  | "code"
+  | "link"
+  | "heading"
+  | "quote"
+  | "bullet"
+  | "numbered"
+  | "task"
+  | "codeblock"
+  | "table";
+
+const WRAP_MARKERS: Partial<Record<FormatAction, string>> = {
+  bold: "**",
+  italic: "_",
+  strike: "~~",
+  code: "`",
+};
+
+const LINE_PREFIXES: Partial<Record<FormatAction, string>> = {
+  heading: "## ",
+  quote: "> ",
+  bullet: "- ",
+  numbered: "1. ",
+  task: "- [ ] ",
+};
+
+// Any list / quote / heading prefix a line may already carry, replaced when switching kinds
+const ANY_PREFIX = /^(#{1,6} |> |- \[[ xX]\] |[-*+] |\d+[.)] )/;
+
+const TABLE_TEMPLATE = "| Column | Column |\n| --- | --- |\n| | |\n";
+
+// Wrap the selection in `marker`, or unwrap it if it already is
+const toggleWrap = ({ text, start, end }: TextSelection, marker: string): TextSelection => {
+  const before = text.slice(0, start);
+  const selected = text.slice(start, end);
+  const after = text.slice(end);
+
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      text: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+      start: start - marker.length,
+      end: end - marker.length,
+    };
+  }
+  return {
+    text: before + marker + selected + marker + after,
+    start: start + marker.length,
+    end: end + marker.length,
+  };
+};
+
+// Add `prefix` to every selected line, or remove it if every line already has it
+const toggleLinePrefix = ({ text, start, end }: TextSelection, prefix: string, numbered: boolean): TextSelection => {
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const nextBreak = text.indexOf("\n", end > start && text[end - 1] === "\n" ? end - 1 : end);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const lines = text.slice(lineStart, lineEnd).split("\n");
+
+  const hasPrefix = (line: string) => (numbered ? /^\d+[.)] /.test(line) : line.startsWith(prefix));
+  const removing = lines.every(hasPrefix);
+  const updated = lines.map((line, i) => {
+    if (removing) return line.replace(ANY_PREFIX, "");
+    const bare = line.replace(ANY_PREFIX, "");
+    return (numbered ? `${i + 1}. ` : prefix) + bare;
+  });
+
+  const block = updated.join("\n");
+  return {
+    text: text.slice(0, lineStart) + block + text.slice(lineEnd),
+    start: lineStart,
+    end: lineStart + block.length,
+  };
+};
+
+// Put `block` on lines of its own at the selection
+const insertBlock = ({ text, start, end }: TextSelection, block: string, selectFrom: number, selectTo: number): TextSelection => {
+  const before = text.slice(0, start);
+  const lead = before === "" || before.endsWith("\n") ? "" : "\n";
+  const inserted = lead + block;
+  return {
+    text: before + inserted + text.slice(end),
+    start: start + lead.length + selectFrom,
+    end: start + lead.length + selectTo,
+  };
+};
+
+// Apply a toolbar action; returns the new text and the selection to restore
+export const applyFormat = (selection: TextSelection, action: FormatAction): TextSelection => {
+  const marker = WRAP_MARKERS[action];
+  if (marker) return toggleWrap(selection, marker);
+
+  const prefix = LINE_PREFIXES[action];
+  if (prefix) return toggleLinePrefix(selection, prefix, action === "numbered");
+
+  const selected = selection.text.slice(selection.start, selection.end);
+  switch (action) {
+    case "link": {
+      const label = selected || "link";
+      const before = selection.text.slice(0, selection.start);
+      const inserted = `[${label}](https://)`;
+      const urlStart = before.length + label.length + 3;
+      return {
+        text: before + inserted + selection.text.slice(selection.end),
+        start: urlStart,
+        end: urlStart + "https://".length,
+      };
+    }
+    case "codeblock": {
+      const body = selected.replace(/\n$/, "");
+      const block = "```\n" + body + "\n```\n";
+      return insertBlock(selection, block, 4, 4 + body.length);
+    }
+    case "table":
+      return insertBlock(selection, TABLE_TEMPLATE, 2, 8);
+    default:
+      return selection;
+  }
+};
+
+// Keyboard shortcuts (with Ctrl / Cmd) for the toolbar actions
+export const FORMAT_SHORTCUTS: { key: string; shift?: boolean; action: FormatAction; label: string }[] = [
+  { key: "b", action: "bold", label: "Bold" },
+  { key: "i", action: "italic", label: "Italic" },
+  { key: "x", shift: true, action: "strike", label: "Strikethrough" },
+  { key: "e", action: "code", label: "Inline code" },
+  { key: "k", action: "link", label: "Link" },
+  { key: "h", shift: true, action: "heading", label: "Heading" },
+  { key: ".", shift: true, action: "quote", label: "Quote" },
+  { key: "8", shift: true, action: "bullet", label: "Bulleted list" },
+  { key: "7", shift: true, action: "numbered", label: "Numbered list" },
+  { key: "9", shift: true, action: "task", label: "Task list" },
+];
+
+export const findShortcut = (e: { key: string; shiftKey: boolean; ctrlKey: boolean; metaKey: boolean; altKey: boolean; code?: string }): FormatAction | null => {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return null;
+  // Shifted keys report their symbol ("*" for 8), so match digits by their physical key
+  const key = e.code?.startsWith("Digit") ? e.code.slice(5) : e.code === "Period" ? "." : e.key.toLowerCase();
+  const shortcut = FORMAT_SHORTCUTS.find(s => s.key === key && Boolean(s.shift) === e.shiftKey);
+  return shortcut ? shortcut.action : null;
+};
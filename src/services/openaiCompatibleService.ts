@@ -0,0 +1,162 @@
+import { AIProvider, AISettings, ChatMessage } from "../types";
+import { SYSTEM_INSTRUCTION, wrapWithContext, recentHistory } from "./promptService";
+
+interface OpenAICompatibleConfig {
+  id: string;
+  label: string;
+  baseUrl: string; // e.g. https://api.groq.com/openai/v1 or http://localhost:11434/v1
+  apiKey?: string;
+  apiKeyEnvName?: string; // set when the endpoint refuses requests without a key
+  // Let a room point this provider at another server (`AISettings.baseUrl`). Room settings are
+  // synced and anyone in the room can change them, so only for providers without a secret of ours to leak.
+  allowBaseUrlOverride?: boolean;
+  // Ask for token counts at the end of the stream (`stream_options.include_usage`); without it
+  // OpenAI, vLLM and Ollama send none. Leave it off for servers that reject options they don't know.
+  streamUsage?: boolean;
+  defaultModel: string;
+  suggestedModels: string[];
+  contextWindows?: Record<string, number>; // known models, in tokens
+  defaultContextWindow: number; // anything else
+}
+
+/**
+ * Builds a provider for any endpoint speaking the OpenAI chat completions
+ * streaming protocol: Groq, OpenAI, Ollama, llama.cpp server, vLLM, LM Studio...
+ */
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const streamResponse = async (
+    history: ChatMessage[],
+    currentContext: string,
+    userPrompt: string,
+    onChunk: (text: string) => void,
+    settings: AISettings,
+    signal?: AbortSignal,
+    onUsage?: (usage: { input: number; output: number }) => void
+  ): Promise<string> => {
+    let fullText = "";
+    try {
+      if (config.apiKeyEnvName && !config.apiKey) {
+        throw new Error(`Missing ${config.apiKeyEnvName}`);
+      }
+
+      const isOverridden = Boolean(config.allowBaseUrlOverride && settings.baseUrl);
+      const baseUrl = (isOverridden ? settings.baseUrl! : config.baseUrl).replace(/\/+$/, "");
+
+      // Prepare messages for OpenAI-compatible API
+      const messages = [
+        { role: "system", content: SYSTEM_INSTRUCTION },
+        ...recentHistory(history),
+        { role: "user", content: wrapWithContext(currentContext, userPrompt) }
+      ];
+
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      // The deployment's key only goes to the deployment's endpoint
+      if (config.apiKey && !isOverridden) headers["Authorization"] = `Bearer ${config.apiKey}`;
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: settings.model || config.defaultModel,
+          messages: messages,
+          stream: true,
+          ...(config.streamUsage && { stream_options: { include_usage: true } }),
+          temperature: settings.temperature,
+          max_tokens: settings.maxTokens
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) throw new Error("401 Unauthorized - Invalid API Key");
+        if (response.status === 404) throw new Error(`404 Model or endpoint not found at ${baseUrl}`);
+        if (response.status === 429) throw new Error("429 Too Many Requests - Quota Exceeded");
+        throw new Error(`${config.label} API Error: ${response.statusText}`);
+      }
+
+      if (!response.body) throw new Error("No response body");
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder("utf-8");
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // SSE lines can be split across network chunks - keep the partial tail
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const rawLine of lines) {
+          const line = rawLine.trim();
+          if (!line) continue;
+          if (line === "data: [DONE]") return fullText;
+          if (line.startsWith("data: ")) {
+            try {
+              const data = JSON.parse(line.slice(6));
+              // Counts come with the last chunk: `usage` (with streamUsage) or `x_groq.usage` (Groq, always)
+              const usage = data.usage ?? data.x_groq?.usage;
+              if (usage?.prompt_tokens) onUsage?.({ input: usage.prompt_tokens, output: usage.completion_tokens ?? 0 });
+              const content = data.choices?.[0]?.delta?.content || "";
+              if (content) {
+                fullText += content;
+                onChunk(fullText);
+              }
+            } catch (e) {
+              console.warn(`Error parsing ${config.label} chunk`, e);
+            }
+          }
+        }
+      }
+
+      return fullText;
+
+    } catch (error: any) {
+      // Stopped by the user - keep what we have
+      if (signal?.aborted) return fullText;
+
+      console.error(`${config.label} API Error:`, error);
+
+      let errorText = `Error: ${error.message || "Unable to reach AI service."}`;
+
+      if (config.apiKeyEnvName && error.message?.includes(`Missing ${config.apiKeyEnvName}`)) {
+        errorText = `Error: Missing API Key. Set ${config.apiKeyEnvName} in .env`;
+      } else if (error.message?.includes("429")) {
+        errorText = `Error: ${config.label} quota exceeded. Try again later.`;
+      } else if (error.message?.includes("401")) {
+        errorText = `Error: Invalid ${config.label} API Key.`;
+      } else if (error.message?.includes("Failed to fetch")) {
+        errorText = `Error: Could not reach ${config.label}. Check your connection or endpoint URL.`;
+      }
+
+      onChunk(errorText);
+      return errorText;
+    }
+  };
+
+  return {
+    id: config.id,
+    label: config.label,
+    defaultModel: config.defaultModel,
+    suggestedModels: config.suggestedModels,
+    isConfigured: () => !config.apiKeyEnvName || Boolean(config.apiKey),
+    contextWindow: (model) => config.contextWindows?.[model] ?? config.defaultContextWindow,
+    streamResponse,
+  };
+};
+
+// Self-hosted endpoint (Ollama by default, or a llama.cpp / vLLM server)
+export const selfHostedProvider = createOpenAICompatibleProvider({
+  id: "openai-compatible",
+  label: "Self-hosted",
+  baseUrl: import.meta.env.VITE_OPENAI_COMPAT_BASE_URL || "http://localhost:11434/v1",
+  apiKey: import.meta.env.VITE_OPENAI_COMPAT_API_KEY,
+  defaultModel: import.meta.env.VITE_OPENAI_COMPAT_MODEL || "llama3.1",
+  suggestedModels: ["llama3.1", "qwen2.5", "mistral", "gemma2"],
+  allowBaseUrlOverride: true,
+  streamUsage: import.meta.env.VITE_OPENAI_COMPAT_STREAM_USAGE !== "false",
+  // What the server actually loads the model with (e.g. Ollama's num_ctx), not what the model supports
+  defaultContextWindow: Number(import.meta.env.VITE_OPENAI_COMPAT_CONTEXT_WINDOW) || 4096,
+});
@@ -0,0 +1,117 @@
+/**
+ * OFFLINE OUTBOX
+ *
+ * Writes that can't reach Supabase (channel down, request failed) are
+ * queued durably in IndexedDB instead of being dropped. When the channel
+ * reconnects they are replayed in order by `RoomSyncChannel.flushOutbox`:
+ * room saves are merged with the server copy (each page through the CRDT,
+ * suggestions unioned by id, the server keeps the final say on access),
+ * chat messages are re-inserted and chat clears re-applied.
+ */
+
+import { RoomData, RoomPage, ChatMessage } from "../types";
+import { hasIndexedDb, idbPut, idbGetAllByIndex, idbDelete } from "./indexedDbService";
+import { sealRoom, sealMessage } from "./encryptionService";
+import { RoomDocument } from "./crdtService";
+import { listPages, setPages } from "./pageService";
+
+export interface OutboxEntry {
+  id: string;
+  roomId: string;
+  queuedAt: number;
+  kind: "room" | "messages" | "clear-messages";
+  room?: RoomData;           // sealed for end-to-end encrypted rooms
+  messages?: ChatMessage[];  // sealed likewise
+  messageIds?: string[];     // clear only these messages (all when omitted)
+}
+
+let sequence = 0;
+
+// ==================== QUEUE ====================
+
+const enqueue = async (roomId: string, fields: Pick<OutboxEntry, "kind" | "room" | "messages" | "messageIds">): Promise<boolean> => {
+  if (!hasIndexedDb) return false;
+  const queuedAt = Date.now();
+  const entry: OutboxEntry = {
+    id: `${roomId}-${queuedAt}-${(sequence++).toString().padStart(6, "0")}`,
+    roomId,
+    queuedAt,
+    ...fields,
+  };
+  try {
+    await idbPut("outbox", entry);
+    return true;
+  } catch (e) {
+    console.error("[Outbox] Failed to queue", entry.kind, e);
+    return false;
+  }
+};
+
+export const enqueueSave = async (room: RoomData): Promise<boolean> =>
+  enqueue(room.id, { kind: "room", room: await sealRoom({ ...room, messages: [] }) });
+
+export const enqueueMessages = async (roomId: string, messages: ChatMessage[]): Promise<boolean> =>
+  enqueue(roomId, { kind: "messages", messages: await Promise.all(messages.map(m => sealMessage(roomId, m))) });
+
+export const enqueueClearMessages = (roomId: string, messageIds?: string[]): Promise<boolean> =>
+  enqueue(roomId, { kind: "clear-messages", messageIds });
+
+// Oldest first
+export const getPendingSaves = async (roomId: string): Promise<OutboxEntry[]> => {
+  if (!hasIndexedDb) return [];
+  try {
+    const entries = await idbGetAllByIndex<OutboxEntry>("outbox", "roomId", roomId);
+    return entries.sort((a, b) => a.queuedAt - b.queuedAt || a.id.localeCompare(b.id));
+  } catch (e) {
+    console.error("[Outbox] Failed to read queue", e);
+    return [];
+  }
+};
+
+export const countPendingSaves = async (roomId: string): Promise<number> =>
+  (await getPendingSaves(roomId)).length;
+
+export const removePendingSaves = async (ids: string[]): Promise<void> => {
+  await Promise.all(ids.map(id => idbDelete("outbox", id)));
+};
+
+// ==================== MERGE ====================
+
+const unionById = <T extends { id: string }>(base: T[], extra: T[]): T[] => {
+  const seen = new Set(base.map(item => item.id));
+  return [...base, ...extra.filter(item => !seen.has(item.id))];
+};
+
+// CRDT merge of one page; the server copy is missing for pages created while offline
+const mergePage = (server: RoomPage | undefined, local: RoomPage): RoomPage => {
+  if (!server) return local;
+
+  const doc = new RoomDocument();
+  doc.load(server.docState, server.content);
+  if (local.docState) doc.applyRemoteUpdate(local.docState);
+  else doc.applyLocalChange(local.content);
+
+  const merged = { ...local, content: doc.toString(), docState: doc.encodeState() };
+  doc.destroy();
+  return merged;
+};
+
+// Merge a queued local save into the server copy (null if the row doesn't exist yet).
+// Pages are unioned: ones added on the server are kept after ours.
+export const mergeRooms = (server: RoomData | null, local: RoomData): RoomData => {
+  if (!server) return local;
+
+  const serverPages = listPages(server);
+  const localPages = listPages(local);
+  const pages = [
+    ...localPages.map(page => mergePage(serverPages.find(p => p.id === page.id), page)),
+    ...serverPages.filter(page => !localPages.some(p => p.id === page.id)),
+  ];
+
+  return setPages({
+    ...local,
+    suggestions: unionById(server.suggestions || [], local.suggestions || []),
+    access: server.access,
+    encrypted: server.encrypted || local.encrypted,
+  }, pages);
+};
@@ -0,0 +1,102 @@
+/**
+ * PAGES
+ *
+ * A room holds one or more named documents ("pages"). The first page a room
+ * ever had lives in the room's own `content` / `docState` / `lastEditor`
+ * fields, so rooms created before pages existed (and clients that don't know
+ * about them) keep working. `RoomData.pages` stores the page list in sidebar
+ * order; the entry for that main page only carries its title.
+ * Every page has its own CRDT document, synced and merged separately.
+ */
+
+import { RoomData, RoomPage } from "../types";
+
+export const MAIN_PAGE_ID = "main";
+export const DEFAULT_PAGE_TITLE = "Notes";
+
+// ==================== READING ====================
+
+// All pages in sidebar order, the main page filled in from the room fields
+export const listPages = (room: RoomData): RoomPage[] => {
+  const main: RoomPage = {
+    id: MAIN_PAGE_ID,
+    title: DEFAULT_PAGE_TITLE,
+    content: room.content,
+    docState: room.docState,
+    lastEditor: room.lastEditor,
+  };
+  if (!room.pages?.length) return [main];
+
+  const pages = room.pages.map(page =>
+    page.id === MAIN_PAGE_ID ? { ...main, title: page.title || DEFAULT_PAGE_TITLE } : page
+  );
+  return pages.some(page => page.id === MAIN_PAGE_ID) ? pages : [main, ...pages];
+};
+
+export const getPage = (room: RoomData, pageId: string): RoomPage | undefined =>
+  listPages(room).find(page => page.id === pageId);
+
+// ==================== WRITING ====================
+
+// Store a page list back on the room (main page fields move to the room itself)
+export const setPages = (room: RoomData, pages: RoomPage[]): RoomData => {
+  const main = pages.find(page => page.id === MAIN_PAGE_ID);
+  const updated: RoomData = main
+    ? { ...room, content: main.content, docState: main.docState, lastEditor: main.lastEditor }
+    : room;
+
+  // A lone, untitled main page is a plain pre-pages room - leave `pages` unset
+  const isPlain = pages.length === 1 && main && main.title === DEFAULT_PAGE_TITLE;
+  return {
+    ...updated,
+    pages: isPlain
+      ? undefined
+      : pages.map(page => (page.id === MAIN_PAGE_ID ? { id: page.id, title: page.title, content: "" } : page)),
+  };
+};
+
+export const updatePage = (room: RoomData, pageId: string, fields: Partial<Omit<RoomPage, "id">>): RoomData => {
+  const pages = listPages(room);
+  if (!pages.some(page => page.id === pageId)) return room;
+  return setPages(room, pages.map(page => (page.id === pageId ? { ...page, ...fields } : page)));
+};
+
+const slugify = (title: string): string =>
+  title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/[\s_]+/g, "-")
+    .replace(/-+/g, "-")
+    .slice(0, 40) || "page";
+
+// New empty page at the end; its id is a slug of the title, so it reads well in `#/room/page`
+export const createPage = (room: RoomData, title: string): { room: RoomData; page: RoomPage } => {
+  const pages = listPages(room);
+  const base = slugify(title);
+  let id = base;
+  for (let n = 2; pages.some(page => page.id === id); n++) id = `${base}-${n}`;
+
+  const page: RoomPage = { id, title, content: "" };
+  return { room: setPages(room, [...pages, page]), page };
+};
+
+export const renamePage = (room: RoomData, pageId: string, title: string): RoomData =>
+  updatePage(room, pageId, { title });
+
+export const movePage = (room: RoomData, pageId: string, toIndex: number): RoomData => {
+  const pages = listPages(room);
+  const from = pages.findIndex(page => page.id === pageId);
+  if (from < 0) return room;
+  const [page] = pages.splice(from, 1);
+  pages.splice(Math.max(0, Math.min(toIndex, pages.length)), 0, page);
+  return setPages(room, pages);
+};
+
+// The main page can't be deleted; suggestions anchored in the page go with it
+export const deletePage = (room: RoomData, pageId: string): RoomData => {
+  if (pageId === MAIN_PAGE_ID) return room;
+  const updated = setPages(room, listPages(room).filter(page => page.id !== pageId));
+  return { ...updated, suggestions: (room.suggestions || []).filter(s => s.pageId !== pageId) };
+};
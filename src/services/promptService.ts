@@ -0,0 +1,48 @@
+import { ChatMessage, MessageRole } from "../types";
+
+// Shared prompt pieces so every AI provider sees the document the same way
+
+export const SYSTEM_INSTRUCTION = `You are an AI assistant embedded in a text editor named noteai.
+    Your goal is to help the user write, edit, and understand their notes.
+    Be concise, direct, and helpful. Use plain text or simple markdown.
+    When the user asks you to change the document, explain the change briefly and then add ONE fenced
+    code block tagged \`edits\` containing a JSON array of operations:
+      {"type": "replace", "target": "<exact existing text>", "text": "<replacement>"}
+      {"type": "delete", "target": "<exact existing text>"}
+      {"type": "insert", "after": "<exact existing text, or \"\" for the very start>", "text": "<new text>"}
+    Omit "after" to append at the end. Copy "target"/"after" verbatim from the document and keep them short but unique.
+    Only use the edits block for changes to the document.
+    The document is given as numbered passages, each starting with a [n | page "title"] line. That line is
+    not part of the page text, so never use it as "target"/"after". Passages from other rooms can be cited
+    but not edited. When your answer relies on a passage, cite it by its number in square brackets, e.g. [2].
+    A [CONVERSATION SUMMARY] section, when present, sums up the older part of this chat, and an
+    [EARLIER CONVERSATION] section holds older messages that may be relevant.`;
+
+// Number of previous messages sent along with each prompt
+export const HISTORY_LIMIT = 10;
+
+// We wrap the user prompt with the CURRENT context of the document.
+// This ensures the AI sees edits made *after* the previous message.
+export const wrapWithContext = (currentContext: string, userPrompt: string): string =>
+  `[CURRENT DOCUMENT CONTENT START]\n${currentContext}\n[CURRENT DOCUMENT CONTENT END]\n\nUser Query: ${userPrompt}`;
+
+// The rolling summary of older chat (see summaryService) goes ahead of the notes
+export const withConversationSummary = (context: string, summary?: string): string =>
+  summary ? `[CONVERSATION SUMMARY]\n${summary}\n\n${context}` : context;
+
+// "@ai" at the start of a message asks the AI even when the chat is set to talk to the room
+export const AI_MENTION = /^@ai\b[\s,:]*/i;
+
+export const stripAIMention = (text: string): string => text.replace(AI_MENTION, "");
+
+// Completed messages, most recent last, mapped to "user" / "assistant" turns.
+// Chat between collaborators stays out unless someone quotes it in a prompt.
+export const recentHistory = (history: ChatMessage[], limit = HISTORY_LIMIT) =>
+  history
+    .filter(m => !m.isStreaming) // Don't include currently streaming messages
+    .filter(m => m.role !== MessageRole.CHAT)
+    .slice(-limit)
+    .map(m => ({
+      role: m.role === MessageRole.USER ? "user" as const : "assistant" as const,
+      content: m.text,
+    }));
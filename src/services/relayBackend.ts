@@ -0,0 +1,242 @@
+/**
+ * WEBSOCKET RELAY BACKEND
+ *
+ * Talks to the bundled relay server (`npm run relay`, see server/relay.ts) over
+ * one WebSocket shared by every room this tab has open. Reads and writes are
+ * request/response pairs; the server pushes stored room and message changes,
+ * broadcasts and presence to everyone in the room. Drops are retried and the
+ * rooms re-joined automatically.
+ *
+ * Protocol (JSON frames):
+ * - client → server: request {id, op, args} | join {roomId, sessionId} | leave {roomId}
+ *                    | broadcast {roomId, event, payload} | track {roomId, state}
+ * - server → client: response {id, result?, error?} | room {roomId, room} | message {roomId, message}
+ *                    | broadcast {roomId, event, payload} | presence {roomId, clients} | join {roomId, sessionId}
+ */
+
+import { RoomData, ChatMessage, RoomVersion } from "../types";
+import { RoomBackend, RoomEvents, RoomSubscription, PresenceState, MESSAGE_PAGE_SIZE } from "./roomBackend";
+
+export const RELAY_URL = import.meta.env.VITE_RELAY_URL || "ws://localhost:8787";
+
+const REQUEST_TIMEOUT_MS = 10000;
+const RECONNECT_DELAY_MS = 2000;
+
+type ServerFrame =
+  | { type: "response"; id: number; result?: any; error?: string }
+  | { type: "room"; roomId: string; room: RoomData }
+  | { type: "message"; roomId: string; message: ChatMessage }
+  | { type: "broadcast"; roomId: string; event: string; payload: any }
+  | { type: "presence"; roomId: string; clients: PresenceState[] }
+  | { type: "join"; roomId: string; sessionId: string };
+
+interface JoinedRoom {
+  sessionId: string;
+  events: RoomEvents;
+  state: PresenceState | null; // re-announced after a reconnect
+  clients: PresenceState[];
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// ==================== CONNECTION ====================
+
+let socket: WebSocket | null = null;
+let opening: Promise<WebSocket> | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+const joined = new Map<string, JoinedRoom>();
+
+const send = (frame: Record<string, unknown>) => {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(frame));
+};
+
+const join = (roomId: string, room: JoinedRoom) => {
+  send({ type: "join", roomId, sessionId: room.sessionId });
+  if (room.state) send({ type: "track", roomId, state: room.state });
+  room.events.onStatus("connected");
+};
+
+const scheduleReconnect = () => {
+  if (reconnectTimer || joined.size === 0) return;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    open().catch(() => {});
+  }, RECONNECT_DELAY_MS);
+};
+
+const handleFrame = (frame: ServerFrame) => {
+  if (frame.type === "response") {
+    const request = pending.get(frame.id);
+    if (!request) return;
+    pending.delete(frame.id);
+    clearTimeout(request.timer);
+    if (frame.error) request.reject(new Error(frame.error));
+    else request.resolve(frame.result ?? null);
+    return;
+  }
+
+  const room = joined.get(frame.roomId);
+  if (!room) return;
+  switch (frame.type) {
+    case "room":
+      room.events.onRoom(frame.room);
+      break;
+    case "message":
+      room.events.onMessage(frame.message);
+      break;
+    case "broadcast":
+      room.events.onBroadcast(frame.event, frame.payload);
+      break;
+    case "presence":
+      room.clients = frame.clients;
+      room.events.onPresence(frame.clients);
+      break;
+    case "join":
+      if (frame.sessionId !== room.sessionId) room.events.onJoin(frame.sessionId);
+      break;
+  }
+};
+
+const open = (): Promise<WebSocket> => {
+  if (socket?.readyState === WebSocket.OPEN) return Promise.resolve(socket);
+  if (opening) return opening;
+
+  opening = new Promise((resolve, reject) => {
+    const ws = new WebSocket(RELAY_URL);
+
+    ws.onopen = () => {
+      console.info("[Sync] Relay connected:", RELAY_URL);
+      opening = null;
+      socket = ws;
+      resolve(ws);
+      joined.forEach((room, roomId) => join(roomId, room));
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        handleFrame(JSON.parse(event.data));
+      } catch (e) {
+        console.warn("[Sync] Bad frame from relay", e);
+      }
+    };
+
+    // Also fires after a failed attempt (onerror is always followed by onclose)
+    ws.onclose = () => {
+      if (socket === ws) {
+        console.warn("[Sync] ❌ Relay connection lost");
+        socket = null;
+      } else {
+        opening = null;
+        reject(new Error(`Relay unreachable at ${RELAY_URL}`));
+      }
+      pending.forEach(request => {
+        clearTimeout(request.timer);
+        request.reject(new Error("Relay connection closed"));
+      });
+      pending.clear();
+      joined.forEach(room => room.events.onStatus("disconnected"));
+      scheduleReconnect();
+    };
+  });
+  return opening;
+};
+
+// Throws when the relay can't be reached or rejects the request
+const request = async <T>(op: string, ...args: unknown[]): Promise<T> => {
+  const ws = await open();
+  const id = nextRequestId++;
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pending.delete(id);
+      reject(new Error(`Relay request timed out: ${op}`));
+    }, REQUEST_TIMEOUT_MS);
+    pending.set(id, { resolve, reject, timer });
+    ws.send(JSON.stringify({ type: "request", id, op, args }));
+  });
+};
+
+// For writes: false instead of throwing, like the other backends
+const attempt = async (op: string, ...args: unknown[]): Promise<boolean> => {
+  try {
+    await request(op, ...args);
+    return true;
+  } catch (e) {
+    console.error(`[Sync] ${op} error:`, e instanceof Error ? e.message : e);
+    return false;
+  }
+};
+
+// ==================== STORAGE ====================
+
+const fetchRoom = (roomId: string): Promise<RoomData | null> => request<RoomData | null>("fetchRoom", roomId);
+
+const saveRoom = (room: RoomData): Promise<boolean> => attempt("saveRoom", room);
+
+const fetchMessages = (
+  roomId: string,
+  beforeSeq?: number,
+  limit = MESSAGE_PAGE_SIZE
+): Promise<{ messages: ChatMessage[]; hasMore: boolean }> =>
+  request("fetchMessages", roomId, beforeSeq ?? null, limit);
+
+const saveMessages = (roomId: string, messages: ChatMessage[], keepExisting = false): Promise<boolean> =>
+  messages.length === 0 ? Promise.resolve(true) : attempt("saveMessages", roomId, messages, keepExisting);
+
+const deleteMessages = (roomId: string, ids?: string[]): Promise<boolean> =>
+  attempt("deleteMessages", roomId, ids ?? null);
+
+const saveVersion = (version: RoomVersion): Promise<boolean> => attempt("saveVersion", version);
+
+const fetchVersions = async (roomId: string, limit: number): Promise<RoomVersion[]> => {
+  try {
+    return await request<RoomVersion[]>("fetchVersions", roomId, limit);
+  } catch (e) {
+    console.error("[Sync] fetchVersions error:", e instanceof Error ? e.message : e);
+    return [];
+  }
+};
+
+// ==================== REALTIME ====================
+
+const subscribe = (roomId: string, sessionId: string, events: RoomEvents): RoomSubscription => {
+  console.info("[Sync] Joining relay room:", roomId);
+  const room: JoinedRoom = { sessionId, events, state: null, clients: [] };
+  joined.set(roomId, room);
+
+  events.onStatus("connecting");
+  if (socket?.readyState === WebSocket.OPEN) join(roomId, room);
+  else open().catch(() => console.warn("[Sync] Relay unreachable, retrying"));
+
+  return {
+    broadcast: (event, payload) => send({ type: "broadcast", roomId, event, payload }),
+    track: async (state) => {
+      room.state = state;
+      send({ type: "track", roomId, state });
+    },
+    presence: () => room.clients,
+    close: () => {
+      if (joined.get(roomId) !== room) return;
+      joined.delete(roomId);
+      send({ type: "leave", roomId });
+    },
+  };
+};
+
+export const relayBackend: RoomBackend = {
+  name: "websocket",
+  isLocal: false,
+  fetchRoom,
+  saveRoom,
+  fetchMessages,
+  saveMessages,
+  deleteMessages,
+  saveVersion,
+  fetchVersions,
+  subscribe,
+};
@@ -0,0 +1,394 @@
+/**
+ * RETRIEVAL
+ *
+ * Instead of pasting every page into every prompt, pages are cut into
+ * passages, embedded, and only the passages closest to the question are sent
+ * (all of them while they still fit). Older chat beyond the history window and,
+ * optionally, the user's other cached rooms are searched the same way. Passages
+ * are numbered in the prompt so the AI can cite them as [n]; `linkCitations`
+ * turns those into links that jump to the passage in the Editor.
+ *
+ * Embedders register themselves like AI providers: a local hashing embedder
+ * that never leaves the browser, and any OpenAI-compatible `/embeddings` API
+ * (VITE_EMBEDDING_BASE_URL) when one is configured.
+ */
+
+import { ChatMessage, MessageRole, RoomPage, TextCursor } from "../types";
+import { HISTORY_LIMIT } from "./promptService";
+import { listRooms } from "./directoryService";
+import { getStoredRoom } from "./storageService";
+import { listPages, MAIN_PAGE_ID } from "./pageService";
+
+// A piece of a page, as offsets into its text
+export interface Passage {
+  roomId: string;
+  roomTitle?: string; // only set for passages from other rooms
+  pageId: string;
+  pageTitle: string;
+  from: number;
+  to: number;
+  text: string;
+  fromAnchor?: string; // CRDT anchors, so the citation survives later edits
+  toAnchor?: string;
+}
+
+export interface RetrievedContext {
+  passages: Passage[]; // numbered [1], [2]... in this order
+  earlierMessages: ChatMessage[]; // older than the history sent with the prompt, oldest first
+  truncated?: { sent: number; total: number }; // passages of the pages, when not all of them fit
+}
+
+export interface Embedder {
+  id: string;
+  minScore: number; // cosine similarity below which something counts as unrelated
+  embed: (texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+}
+
+// Passages are cut at paragraphs and headings, and never longer than this
+const PASSAGE_CHARS = 800;
+
+// Most of the notes sent per prompt (less when the model's window is smaller); smaller documents go in whole
+const CONTEXT_BUDGET_CHARS = 12000;
+
+const MAX_EARLIER_MESSAGES = 4;
+const EARLIER_MESSAGE_CHARS = 1200;
+const MAX_OTHER_ROOM_PASSAGES = 3;
+
+const SEARCH_OTHER_ROOMS_KEY = "padai_search_other_rooms";
+
+// ==================== PASSAGES ====================
+
+// Splits a page into passages: whole paragraphs where they fit, a new one at each heading
+export const chunkPage = (roomId: string, page: RoomPage): Passage[] => {
+  const content = page.content;
+  const passages: Passage[] = [];
+  let start = -1;
+  let end = -1;
+
+  const flush = () => {
+    if (start >= 0) passages.push({ roomId, pageId: page.id, pageTitle: page.title, from: start, to: end, text: content.slice(start, end) });
+    start = -1;
+  };
+
+  const blocks = /[^\n]*\S[\s\S]*?(?=\n[ \t]*\n|$)/g;
+  for (let match = blocks.exec(content); match; match = blocks.exec(content)) {
+    let from = match.index + (match[0].length - match[0].trimStart().length);
+    const to = match.index + match[0].trimEnd().length;
+    const isHeading = /^ {0,3}#{1,6}\s/.test(content.slice(from, to));
+
+    if (start >= 0 && (isHeading || to - start > PASSAGE_CHARS)) flush();
+
+    // A paragraph too long on its own is cut at the last space that fits
+    while (to - from > PASSAGE_CHARS) {
+      const space = content.lastIndexOf(" ", from + PASSAGE_CHARS);
+      const cut = space > from + PASSAGE_CHARS / 2 ? space : from + PASSAGE_CHARS;
+      start = from;
+      end = cut;
+      flush();
+      from = cut + (content[cut] === " " ? 1 : 0);
+    }
+
+    if (start < 0) start = from;
+    end = to;
+  }
+  flush();
+  return passages;
+};
+
+// ==================== EMBEDDERS ====================
+
+const embedders = new Map<string, Embedder>();
+
+export const registerEmbedder = (embedder: Embedder) => {
+  embedders.set(embedder.id, embedder);
+};
+
+const HASH_DIMENSIONS = 1024;
+
+const STOP_WORDS = new Set(
+  "a an and are as at be but by for from has have how i in is it its of on or that the this to was we what when where which who why will with you".split(" ")
+);
+
+// FNV-1a, enough to spread words over the vector
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word));
+
+const normalize = (vector: number[]): number[] => {
+  const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return length ? vector.map(x => x / length) : vector;
+};
+
+// Words and word pairs hashed into a fixed-size vector: keyword matching, but runs anywhere
+export const hashingEmbedder: Embedder = {
+  id: "local",
+  minScore: 0.12,
+  embed: async (texts) =>
+    texts.map(text => {
+      const words = tokenize(text);
+      const counts = new Map<string, number>();
+      words.forEach((word, i) => {
+        counts.set(word, (counts.get(word) || 0) + 1);
+        if (i > 0) counts.set(`${words[i - 1]} ${word}`, (counts.get(`${words[i - 1]} ${word}`) || 0) + 1);
+      });
+      const vector = new Array<number>(HASH_DIMENSIONS).fill(0);
+      counts.forEach((count, feature) => {
+        const hash = hashString(feature);
+        vector[hash % HASH_DIMENSIONS] += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+      });
+      return normalize(vector);
+    }),
+};
+
+const EMBEDDING_BASE_URL = import.meta.env.VITE_EMBEDDING_BASE_URL;
+const EMBEDDING_API_KEY = import.meta.env.VITE_EMBEDDING_API_KEY;
+const EMBEDDING_MODEL = import.meta.env.VITE_EMBEDDING_MODEL || "text-embedding-3-small";
+const EMBEDDING_BATCH_SIZE = 64;
+
+// Any endpoint speaking the OpenAI embeddings protocol: OpenAI, Ollama, llama.cpp server, vLLM...
+export const apiEmbedder: Embedder = {
+  id: "api",
+  minScore: 0.3,
+  embed: async (texts, signal) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (EMBEDDING_API_KEY) headers["Authorization"] = `Bearer ${EMBEDDING_API_KEY}`;
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const response = await fetch(`${(EMBEDDING_BASE_URL || "").replace(/\/+$/, "")}/embeddings`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ model: EMBEDDING_MODEL, input: texts.slice(i, i + EMBEDDING_BATCH_SIZE) }),
+        signal,
+      });
+      if (!response.ok) throw new Error(`Embedding request failed: ${response.status}`);
+      const { data } = (await response.json()) as { data: { index: number; embedding: number[] }[] };
+      vectors.push(...data.sort((a, b) => a.index - b.index).map(item => normalize(item.embedding)));
+    }
+    return vectors;
+  },
+};
+
+registerEmbedder(hashingEmbedder);
+if (EMBEDDING_BASE_URL) registerEmbedder(apiEmbedder);
+
+// VITE_EMBEDDING_PROVIDER picks one; otherwise the API when configured, else local
+const getEmbedder = (): Embedder =>
+  embedders.get(import.meta.env.VITE_EMBEDDING_PROVIDER || "") ?? embedders.get(apiEmbedder.id) ?? hashingEmbedder;
+
+// ==================== EMBEDDING CACHE ====================
+// Passages rarely change between questions, so their vectors are kept for the session
+
+const MAX_CACHED_VECTORS = 5000;
+const vectorCache = new Map<string, number[]>();
+
+const cacheKey = (embedder: Embedder, text: string) => `${embedder.id}:${text.length}:${hashString(text)}`;
+
+const embedCached = async (embedder: Embedder, texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+  const missing = Array.from(new Set(texts.filter(text => !vectorCache.has(cacheKey(embedder, text)))));
+  if (missing.length > 0) {
+    const vectors = await embedder.embed(missing, signal);
+    missing.forEach((text, i) => vectorCache.set(cacheKey(embedder, text), vectors[i]));
+
+    // Oldest first (Maps keep insertion order)
+    for (const key of vectorCache.keys()) {
+      if (vectorCache.size <= MAX_CACHED_VECTORS) break;
+      vectorCache.delete(key);
+    }
+  }
+  return texts.map(text => vectorCache.get(cacheKey(embedder, text))!);
+};
+
+const cosine = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+};
+
+// ==================== RETRIEVAL ====================
+
+// Whether the AI may also search the other rooms cached in this browser (a personal setting, not the room's)
+export const getSearchOtherRooms = (): boolean => localStorage.getItem(SEARCH_OTHER_ROOMS_KEY) === "1";
+
+export const setSearchOtherRooms = (enabled: boolean) => {
+  if (enabled) localStorage.setItem(SEARCH_OTHER_ROOMS_KEY, "1");
+  else localStorage.removeItem(SEARCH_OTHER_ROOMS_KEY);
+};
+
+// Readable rooms other than `roomId`; end-to-end encrypted ones are never searched
+export const hasOtherRooms = (roomId: string): boolean => listRooms().some(room => room.id !== roomId && !room.encrypted);
+
+const otherRoomPassages = (roomId: string): Passage[] =>
+  listRooms()
+    .filter(entry => entry.id !== roomId && !entry.encrypted)
+    .flatMap(entry => {
+      const room = getStoredRoom(entry.id);
+      if (!room) return [];
+      const roomTitle = entry.title || entry.id;
+      return listPages({ ...room, id: entry.id }).flatMap(page => chunkPage(entry.id, page).map(passage => ({ ...passage, roomTitle })));
+    });
+
+// Messages the provider no longer sees: everything the AI would read, before the last HISTORY_LIMIT
+const earlierMessagesOf = (history: ChatMessage[]): ChatMessage[] =>
+  history.filter(m => !m.isStreaming && m.role !== MessageRole.CHAT).slice(0, -HISTORY_LIMIT);
+
+// What to send along with `query` in at most `budgetChars`: the passages of `pages` (the most
+// relevant ones when not all fit), plus related earlier messages and passages from other rooms
+export const retrieveContext = async (
+  query: string,
+  roomId: string,
+  pages: RoomPage[],
+  history: ChatMessage[],
+  options: { searchOtherRooms?: boolean; signal?: AbortSignal; budgetChars?: number } = {}
+): Promise<RetrievedContext> => {
+  const budget = Math.min(options.budgetChars ?? CONTEXT_BUDGET_CHARS, CONTEXT_BUDGET_CHARS);
+  const passages = pages.flatMap(page => chunkPage(roomId, page));
+  const earlier = earlierMessagesOf(history);
+  const others = options.searchOtherRooms ? otherRoomPassages(roomId) : [];
+
+  const size = (passage: Passage) => passage.text.length;
+  const total = passages.reduce((sum, passage) => sum + size(passage), 0);
+  if (total <= budget && earlier.length === 0 && others.length === 0) {
+    return { passages, earlierMessages: [] };
+  }
+
+  // Page titles travel with the text, so "the budget page" finds the passages under it
+  const passageText = (passage: Passage) => `${passage.roomTitle ? `${passage.roomTitle} · ` : ""}${passage.pageTitle}\n${passage.text}`;
+  const messageText = (message: ChatMessage) => message.text.slice(0, EARLIER_MESSAGE_CHARS);
+  const texts = [query, ...passages.map(passageText), ...earlier.map(messageText), ...others.map(passageText)];
+
+  const rank = async (embedder: Embedder) => {
+    const [queryVector, ...vectors] = await embedCached(embedder, texts, options.signal);
+    return vectors.map(vector => cosine(queryVector, vector));
+  };
+
+  let embedder = getEmbedder();
+  let scores: number[];
+  try {
+    scores = await rank(embedder);
+  } catch (e) {
+    if (options.signal?.aborted || embedder === hashingEmbedder) throw e;
+    console.warn("[noteai] Embedding API failed, falling back to local matching", e);
+    embedder = hashingEmbedder;
+    scores = await rank(embedder);
+  }
+
+  // The best-scoring items while the characters used so far stay within `room`, back in their original order
+  let used = 0;
+  const pick = <T>(items: T[], offset: number, sizeOf: (item: T) => number, room: number, limit = items.length, minScore = -Infinity): T[] => {
+    let taken = 0;
+    return items
+      .map((item, i) => ({ item, i, score: scores[offset + i] }))
+      .filter(({ score }) => score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .filter(({ item }) => {
+        if (taken >= limit || used + sizeOf(item) > room) return false;
+        used += sizeOf(item);
+        taken++;
+        return true;
+      })
+      .sort((a, b) => a.i - b.i)
+      .map(({ item }) => item);
+  };
+
+  // Older messages and other rooms may take up to half; this room's notes get the rest
+  const earlierMessages = pick(earlier, passages.length, m => messageText(m).length, budget / 2, MAX_EARLIER_MESSAGES, embedder.minScore);
+  const otherPassages = pick(others, passages.length + earlier.length, size, budget / 2, MAX_OTHER_ROOM_PASSAGES, embedder.minScore);
+  const selected = total <= budget - used ? passages : pick(passages, 0, size, budget);
+
+  return {
+    passages: [...selected, ...otherPassages],
+    earlierMessages,
+    truncated: selected.length < passages.length ? { sent: selected.length, total: passages.length } : undefined,
+  };
+};
+
+// ==================== PROMPT ====================
+
+const describePassage = (passage: Passage) =>
+  passage.roomTitle ? `other room "${passage.roomTitle}", page "${passage.pageTitle}"` : `page "${passage.pageTitle}"`;
+
+// The text handed to the provider as the document context
+export const formatRetrievedContext = ({ passages, earlierMessages }: RetrievedContext): string => {
+  const sections: string[] = [];
+  if (earlierMessages.length > 0) {
+    const lines = earlierMessages.map(m => `${m.role === MessageRole.USER ? "User" : "AI"}: ${m.text.slice(0, EARLIER_MESSAGE_CHARS)}`);
+    sections.push(`[EARLIER CONVERSATION]\n${lines.join("\n\n")}`);
+  }
+  sections.push(...passages.map((passage, i) => `[${i + 1} | ${describePassage(passage)}]\n${passage.text}`));
+  return sections.join("\n\n");
+};
+
+// ==================== CITATIONS ====================
+// A citation is a link to "#cite:" + room / page / offsets / anchors, each URI-encoded.
+// Only the message text is stored (and sealed), so the link has to carry everything.
+
+export interface Citation extends TextCursor {
+  roomId: string;
+}
+
+export const CITATION_PREFIX = "#cite:";
+
+const citationHref = (passage: Passage): string =>
+  CITATION_PREFIX +
+  [passage.roomId, passage.pageId, passage.from, passage.to, passage.fromAnchor ?? "", passage.toAnchor ?? ""]
+    .map(part => encodeURIComponent(String(part)))
+    .join("/");
+
+export const parseCitation = (href: string): Citation | null => {
+  if (!href.startsWith(CITATION_PREFIX)) return null;
+  const [roomId, pageId = MAIN_PAGE_ID, from, to, fromAnchor, toAnchor] = href
+    .slice(CITATION_PREFIX.length)
+    .split("/")
+    .map(part => decodeURIComponent(part));
+  if (!roomId) return null;
+  return {
+    roomId,
+    pageId,
+    from: Number(from) || 0,
+    to: Number(to) || 0,
+    fromAnchor: fromAnchor || undefined,
+    toAnchor: toAnchor || undefined,
+  };
+};
+
+const escapeLabel = (text: string) => text.replace(/[[\]*_`\\]/g, "");
+
+// "[2]" / "[1, 3]" in the answer become links to the passages, followed by a list of the sources
+// that were cited. Code is left alone, and numbers that aren't passages stay plain text.
+export const linkCitations = (text: string, passages: Passage[]): string => {
+  const cited = new Set<number>();
+  const linked = text
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((part, i) =>
+      i % 2 === 1
+        ? part
+        : part.replace(/\[(\d+(?:\s*,\s*\d+)*)\](?![(:])/g, (marker, numbers: string) => {
+            const refs = numbers.split(",").map(n => Number(n.trim()));
+            if (!refs.every(n => n >= 1 && n <= passages.length)) return marker;
+            refs.forEach(n => cited.add(n));
+            return refs.map(n => `[[${n}]](${citationHref(passages[n - 1])})`).join("");
+          })
+    )
+    .join("");
+  if (cited.size === 0) return text;
+
+  const sources = Array.from(cited)
+    .sort((a, b) => a - b)
+    .map(n => {
+      const passage = passages[n - 1];
+      const where = passage.roomTitle ? `${passage.roomTitle} › ${passage.pageTitle}` : passage.pageTitle;
+      return `[[${n}] ${escapeLabel(where)}](${citationHref(passage)})`;
+    });
+  return `${linked}\n\n_Sources: ${sources.join(" · ")}_`;
+};
@@ -0,0 +1,65 @@
+/**
+ * ROOM BACKENDS
+ *
+ * Where rooms, chat and history are stored, and how the clients in a room
+ * reach each other. One interface, three implementations:
+ * - local: this browser only (localStorage + IndexedDB)
+ * - supabase: Postgres tables and Realtime channels
+ * - websocket: the bundled relay server (`server/relay.ts`, SQLite on your own box)
+ * `RoomSyncChannel` (syncService) builds on whichever one is configured.
+ * Everything passed through here is already sealed for end-to-end encrypted rooms.
+ */
+
+import { RoomData, ChatMessage, RoomVersion } from "../types";
+
+export type BackendName = "local" | "supabase" | "websocket";
+
+export type ConnectionStatus = "connected" | "disconnected" | "connecting";
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+// What each client announces about itself to the others in a room
+export interface PresenceState {
+  sessionId: string; // one per open tab - the same person can be in a room twice
+  clientId: string;
+  clientLabel: string;
+  isTyping: boolean;
+  color: string;
+  aiLockedAt: number | null;
+  joinedAt: number;
+}
+
+export interface RoomEvents {
+  onRoom: (room: RoomData) => void; // the stored room changed (possibly by our own save)
+  onMessage: (message: ChatMessage) => void; // a message was stored or edited, by anyone including us
+  onBroadcast: (event: string, payload: any) => void; // ephemeral event sent by another client
+  onPresence: (clients: PresenceState[]) => void; // everyone in the room, us included
+  onJoin: (sessionId: string) => void; // someone (else) entered the room
+  onStatus: (status: ConnectionStatus) => void;
+}
+
+export interface RoomSubscription {
+  broadcast: (event: string, payload: Record<string, unknown>) => void;
+  track: (state: PresenceState) => Promise<void>;
+  presence: () => PresenceState[];
+  close: () => void;
+}
+
+export interface RoomBackend {
+  name: BackendName;
+  isLocal: boolean; // nothing leaves the browser, so it's never offline
+  // null if the room doesn't exist yet; throws if the backend can't be reached
+  fetchRoom: (roomId: string) => Promise<RoomData | null>;
+  saveRoom: (room: RoomData) => Promise<boolean>;
+  // A page of messages in chat order, ending just before `beforeSeq` (newest page if omitted).
+  // Messages come back with their `seq`; throws if the backend can't be reached.
+  fetchMessages: (roomId: string, beforeSeq?: number, limit?: number) => Promise<{ messages: ChatMessage[]; hasMore: boolean }>;
+  // Insert or replace by id; `keepExisting` leaves messages that are already stored untouched
+  saveMessages: (roomId: string, messages: ChatMessage[], keepExisting?: boolean) => Promise<boolean>;
+  // The whole chat, or only the messages in `ids`
+  deleteMessages: (roomId: string, ids?: string[]) => Promise<boolean>;
+  saveVersion: (version: RoomVersion) => Promise<boolean>;
+  // Newest first
+  fetchVersions: (roomId: string, limit: number) => Promise<RoomVersion[]>;
+  subscribe: (roomId: string, sessionId: string, events: RoomEvents) => RoomSubscription;
+}
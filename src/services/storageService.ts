@@ -1,103 +1,64 @@
-import { RoomData, ChatMessage, MessageRole } from "../types";
+import { RoomData } from "../types";
+import { sealRoom, openRoom } from "./encryptionService";
 
 const STORAGE_PREFIX = "padai_room_";
-const CLIENT_ID_KEY = "padai_client_id";
-const CLIENT_LABEL_KEY = "padai_client_label";
 
-const WELCOME_MESSAGES = [
-  "Hello. I’m here to help you with your notes.",
-  "Hey there! Ready to brainstorm?",
-  "Hi! What can I help you write today?",
-  "Welcome back. What are we working on?",
-  "Hi! Share the room link so others can collaborate."
-];
-
-const getRandomWelcome = () =>
-  WELCOME_MESSAGES[Math.floor(Math.random() * WELCOME_MESSAGES.length)];
-
-const ADJECTIVES = ["Happy", "Quiet", "Bright", "Swift", "Calm", "Eager", "Wise", "Bold"];
-const ANIMALS = ["Fox", "Owl", "Bear", "Cat", "Wolf", "Hawk", "Lion", "Tiger"];
-
-const generateName = () => {
-  const adj = ADJECTIVES[Math.floor(Math.random() * ADJECTIVES.length)];
-  const animal = ANIMALS[Math.floor(Math.random() * ANIMALS.length)];
-  return `${adj} ${animal}`;
-};
-
-export const getClientIdentity = (): { id: string; label: string } => {
-  let id = localStorage.getItem(CLIENT_ID_KEY);
-  let label = localStorage.getItem(CLIENT_LABEL_KEY);
-
-  if (!id) {
-    id = Math.random().toString(36).substring(2, 7);
-    localStorage.setItem(CLIENT_ID_KEY, id);
-  }
-
-  if (!label || label.startsWith('Guest-')) {
-    label = generateName();
-    localStorage.setItem(CLIENT_LABEL_KEY, label);
-  }
-
-  return { id, label };
-};
-
-export const getRoom = (roomId: string): RoomData => {
+// The copy saved by the last visit, or null - used to open rooms while offline.
+// Async because end-to-end encrypted rooms are decrypted on read.
+export const getCachedRoom = async (roomId: string): Promise<RoomData | null> => {
   const key = `${STORAGE_PREFIX}${roomId}`;
   const stored = localStorage.getItem(key);
   
   if (stored) {
     try {
-      return JSON.parse(stored);
+      return await openRoom(JSON.parse(stored));
     } catch (e) {
       console.error("Failed to parse room data", e);
     }
   }
-
-  // Return default new room
-  return {
-    id: roomId,
-    content: "",
-    messages: [
-      {
-        id: "welcome-msg",
-        role: MessageRole.MODEL,
-        text: getRandomWelcome(),
-        senderId: "ai",
-        senderLabel: "AI",
-        timestamp: Date.now()
-      }
-    ],
-    updatedAt: Date.now()
-  };
+  return null;
 };
 
-export const saveRoom = (room: RoomData): void => {
+// Writes per room are chained so an older (slower to encrypt) save never lands last
+const pendingWrites = new Map<string, Promise<void>>();
+
+export const saveRoom = (room: RoomData): Promise<void> => {
   const key = `${STORAGE_PREFIX}${room.id}`;
-  // Use the existing updatedAt from room - do NOT override
-  // This keeps localStorage in sync with Supabase timestamps
-  localStorage.setItem(key, JSON.stringify(room));
+  const previous = pendingWrites.get(room.id) || Promise.resolve();
+
+  const write = previous.then(async () => {
+    // Use the existing updatedAt from room - do NOT override
+    // This keeps localStorage in sync with Supabase timestamps
+    localStorage.setItem(key, JSON.stringify(await sealRoom(room)));
+  }).catch(e => console.error("Failed to save room data", e));
+
+  pendingWrites.set(room.id, write);
+  return write;
 };
 
-export const generateRoomId = (): string => {
-  return Math.random().toString(36).substring(2, 7);
+// Ids of every room with a cached copy in this browser
+export const listCachedRoomIds = (): string[] => {
+  const ids: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(STORAGE_PREFIX)) ids.push(key.slice(STORAGE_PREFIX.length));
+  }
+  return ids;
 };
 
-// New: Subscribe to changes from other tabs/windows
-export const subscribeToRoom = (roomId: string, callback: (data: RoomData) => void) => {
-  const key = `${STORAGE_PREFIX}${roomId}`;
+// The cached copy as stored - still sealed for end-to-end encrypted rooms
+export const getStoredRoom = (roomId: string): RoomData | null => {
+  try {
+    return JSON.parse(localStorage.getItem(`${STORAGE_PREFIX}${roomId}`) || "null");
+  } catch {
+    return null;
+  }
+};
 
-  const handler = (e: StorageEvent) => {
-    // Only react if the specific room key changed
-    if (e.key === key && e.newValue) {
-      try {
-        const data = JSON.parse(e.newValue);
-        callback(data);
-      } catch (err) {
-        console.error("Sync error parsing storage data", err);
-      }
-    }
-  };
+export const removeCachedRoom = (roomId: string) => {
+  localStorage.removeItem(`${STORAGE_PREFIX}${roomId}`);
+};
 
-  window.addEventListener('storage', handler);
-  return () => window.removeEventListener('storage', handler);
+export const generateRoomId = (): string => {
+  return Math.random().toString(36).substring(2, 7);
 };
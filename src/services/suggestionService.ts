@@ -0,0 +1,154 @@
+/**
+ * AI EDIT SUGGESTIONS
+ *
+ * The assistant can answer with a fenced ```edits block holding JSON edit
+ * operations. Those are resolved against the current notes, anchored with
+ * CRDT relative positions (so they survive concurrent typing) and shown in
+ * the Editor as tracked changes that anyone can accept or reject.
+ */
+
+import { EditSuggestion } from "../types";
+import { RoomDocument, TextChange } from "./crdtService";
+
+export interface EditOperation {
+  type: "insert" | "replace" | "delete";
+  target?: string; // exact existing text to replace / delete
+  after?: string;  // insert after this exact text ("" = start, missing = end)
+  text?: string;
+}
+
+// A suggestion with its anchors resolved to offsets in the current content
+export interface ResolvedSuggestion extends EditSuggestion {
+  from: number;
+  to: number;
+  isStale: boolean; // the anchored text was changed since the suggestion was made
+}
+
+const EDIT_BLOCK_PATTERN = /```edits\s*\n([\s\S]*?)```/;
+const EDIT_BLOCK_START = "```edits";
+
+// ==================== PARSING ====================
+
+export const extractEditOperations = (text: string): { operations: EditOperation[]; text: string } => {
+  const match = text.match(EDIT_BLOCK_PATTERN);
+  if (!match) return { operations: [], text };
+
+  let operations: EditOperation[] = [];
+  try {
+    const parsed = JSON.parse(match[1]);
+    operations = (Array.isArray(parsed) ? parsed : [parsed]).filter(
+      (op: any) => op && ["insert", "replace", "delete"].includes(op.type)
+    );
+  } catch (e) {
+    console.warn("[Suggestions] Could not parse edits block", e);
+  }
+
+  return { operations, text: text.replace(match[0], "").trim() };
+};
+
+// Hide a (possibly still streaming) edits block from the chat bubble
+export const stripEditBlock = (text: string): string => {
+  const start = text.indexOf(EDIT_BLOCK_START);
+  return start === -1 ? text : text.slice(0, start).trimEnd();
+};
+
+// Turn anchor-based operations into concrete changes against `content`
+export const resolveOperations = (content: string, operations: EditOperation[]): TextChange[] => {
+  const changes: TextChange[] = [];
+
+  for (const op of operations) {
+    if (op.type === "insert") {
+      let index = content.length;
+      if (op.after !== undefined) {
+        const found = op.after === "" ? 0 : content.indexOf(op.after);
+        if (found === -1) continue;
+        index = op.after === "" ? 0 : found + op.after.length;
+      }
+      if (op.text) changes.push({ index, deleteCount: 0, insert: op.text });
+      continue;
+    }
+
+    if (!op.target) continue;
+    const index = content.indexOf(op.target);
+    if (index === -1) {
+      console.warn("[Suggestions] Target text not found:", op.target);
+      continue;
+    }
+    changes.push({
+      index,
+      deleteCount: op.target.length,
+      insert: op.type === "replace" ? op.text || "" : "",
+    });
+  }
+
+  // Drop overlapping changes - the first one wins
+  return changes
+    .sort((a, b) => a.index - b.index)
+    .filter((change, i, sorted) => i === 0 || change.index >= sorted[i - 1].index + sorted[i - 1].deleteCount);
+};
+
+// ==================== SUGGESTIONS ====================
+
+// When the AI saw several pages, send each operation to the first page holding its anchor text
+// (operations without one go to `defaultPageId`)
+export const groupOperationsByPage = (
+  pages: { id: string; content: string }[],
+  operations: EditOperation[],
+  defaultPageId: string
+): Map<string, EditOperation[]> => {
+  const groups = new Map<string, EditOperation[]>();
+  for (const op of operations) {
+    const anchor = op.type === "insert" ? op.after : op.target;
+    const page = anchor ? pages.find(p => p.content.includes(anchor)) : undefined;
+    const pageId = page?.id ?? defaultPageId;
+    groups.set(pageId, [...(groups.get(pageId) || []), op]);
+  }
+  return groups;
+};
+
+export const createSuggestions = (
+  doc: RoomDocument,
+  changes: TextChange[],
+  messageId: string,
+  pageId: string
+): EditSuggestion[] => {
+  const content = doc.toString();
+  return changes.map((change, i) => ({
+    id: `${messageId}-${pageId}-${i}`,
+    messageId,
+    pageId,
+    kind: change.deleteCount === 0 ? "insert" : change.insert ? "replace" : "delete",
+    start: doc.createAnchor(change.index, 0),
+    end: doc.createAnchor(change.index + change.deleteCount, -1),
+    originalText: content.slice(change.index, change.index + change.deleteCount),
+    text: change.insert,
+    createdAt: Date.now(),
+  }));
+};
+
+// Resolve anchors; suggestions whose text was deleted entirely are dropped
+export const resolveSuggestions = (doc: RoomDocument, suggestions: EditSuggestion[]): ResolvedSuggestion[] => {
+  const content = doc.toString();
+  const resolved: ResolvedSuggestion[] = [];
+
+  for (const suggestion of suggestions) {
+    const from = doc.resolveAnchor(suggestion.start);
+    const to = suggestion.kind === "insert" ? from : doc.resolveAnchor(suggestion.end);
+    if (from === null || to === null || to < from) continue;
+
+    resolved.push({
+      ...suggestion,
+      from,
+      to,
+      isStale: content.slice(from, to) !== suggestion.originalText,
+    });
+  }
+
+  return resolved.sort((a, b) => a.from - b.from);
+};
+
+export const toChange = (suggestion: ResolvedSuggestion): TextChange => ({
+  index: suggestion.from,
+  deleteCount: suggestion.to - suggestion.from,
+  insert: suggestion.text,
+});
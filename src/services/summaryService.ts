@@ -0,0 +1,74 @@
+/**
+ * CONVERSATION SUMMARY
+ *
+ * Only the last few messages travel with each prompt. What drops out of that
+ * window is folded into a running summary stored on the room
+ * (`RoomData.chatSummary`, sealed with the rest of an encrypted room), so the
+ * AI keeps the gist of a long conversation without it being resent. The client
+ * that just got an answer brings the summary up to date once enough messages
+ * are waiting.
+ */
+
+import { AISettings, ChatMessage, ChatSummary, MessageRole } from "../types";
+import { HISTORY_LIMIT, SYSTEM_INSTRUCTION } from "./promptService";
+import { streamAIResponse, getContextWindow } from "./aiService";
+import { CHARS_PER_TOKEN, estimateTokens } from "./tokenService";
+
+// Summarize once this many messages have left the history window unsummarized
+const SUMMARY_BATCH = 6;
+
+const SUMMARY_MAX_TOKENS = 400;
+const MESSAGE_CHARS = 2000;
+
+const SUMMARY_PROMPT = `Update the conversation summary: fold the messages under [NEW MESSAGES] into the
+[PREVIOUS SUMMARY] and reply with the updated summary only - no preamble and no edits block. Keep it under
+200 words, as short bullet points: what the user asked for, decisions, facts and open questions.`;
+
+// Messages that left the history window after the summary was last updated, oldest first
+const pendingMessages = (history: ChatMessage[], summary?: ChatSummary): ChatMessage[] =>
+  history
+    .filter(m => !m.isStreaming && m.role !== MessageRole.CHAT)
+    .slice(0, -HISTORY_LIMIT)
+    .filter(m => m.timestamp > (summary?.through ?? 0));
+
+export const needsSummary = (history: ChatMessage[], summary?: ChatSummary): boolean =>
+  pendingMessages(history, summary).length >= SUMMARY_BATCH;
+
+// Whether dropping the messages from `timestamp` on leaves the summary describing things that are gone
+export const summaryCovers = (summary: ChatSummary | undefined, timestamp: number): boolean =>
+  Boolean(summary && summary.through >= timestamp);
+
+// The summary with the waiting messages folded in (as many as fit the model), or null if the AI failed
+export const updateSummary = async (
+  history: ChatMessage[],
+  summary: ChatSummary | undefined,
+  settings?: Partial<AISettings>
+): Promise<ChatSummary | null> => {
+  const budget =
+    (getContextWindow(settings) - SUMMARY_MAX_TOKENS - estimateTokens(SYSTEM_INSTRUCTION + SUMMARY_PROMPT + (summary?.text || ""))) *
+    CHARS_PER_TOKEN;
+
+  const lines: string[] = [];
+  let used = 0;
+  let through = summary?.through ?? 0;
+  for (const message of pendingMessages(history, summary)) {
+    const line = `${message.role === MessageRole.USER ? "User" : "AI"}: ${message.text.slice(0, MESSAGE_CHARS)}`;
+    if (used + line.length > budget) break;
+    lines.push(line);
+    used += line.length;
+    through = message.timestamp;
+  }
+  if (lines.length === 0) return null;
+
+  const context = `[PREVIOUS SUMMARY]\n${summary?.text || "(none yet)"}\n\n[NEW MESSAGES]\n${lines.join("\n\n")}`;
+  const text = (
+    await streamAIResponse([], context, SUMMARY_PROMPT, () => {}, { ...settings, maxTokens: SUMMARY_MAX_TOKENS, temperature: 0.2 })
+  ).trim();
+
+  // Providers answer failures with an "Error: ..." text instead of throwing
+  if (!text || text.startsWith("Error:")) {
+    console.warn("[noteai] Conversation summary failed:", text);
+    return null;
+  }
+  return { text, through, updatedAt: Date.now() };
+};
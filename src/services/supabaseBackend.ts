@@ -0,0 +1,312 @@
+/**
+ * SUPABASE BACKEND
+ *
+ * Rooms in the `rooms` table, chat in `room_messages`, snapshots in
+ * `room_versions`. Other clients hear about writes through Realtime
+ * postgres_changes; cursors, CRDT updates and AI streams go over the same
+ * channel as broadcasts, and presence carries who's online.
+ */
+
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { RoomData, ChatMessage, RoomVersion } from "../types";
+import { RoomBackend, RoomEvents, RoomSubscription, PresenceState, MESSAGE_PAGE_SIZE } from "./roomBackend";
+
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+let client: SupabaseClient | null = null;
+
+export const hasSupabase = Boolean(supabaseUrl && supabaseKey);
+
+// Shared by sync and sign-in (identityService), so the session applies to every request
+export const getClient = (): SupabaseClient | null => {
+  if (!hasSupabase) return null;
+  if (!client) {
+    client = createClient(supabaseUrl!, supabaseKey!, {
+      // Magic links come back with ?code=..., leaving the #/room hash route alone
+      auth: { flowType: "pkce" },
+      realtime: {
+        params: {
+          eventsPerSecond: 20,
+        },
+      },
+    });
+  }
+  return client;
+};
+
+// ==================== ROOMS ====================
+
+const fetchRoom = async (roomId: string): Promise<RoomData | null> => {
+  const supabase = getClient();
+  if (!supabase) return null;
+
+  const { data, error } = await supabase
+    .from("rooms")
+    .select("*")
+    .eq("id", roomId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[Sync] fetchRoom error:", error.message);
+    throw new Error(error.message);
+  }
+  return data as RoomData | null;
+};
+
+const saveRoom = async (room: RoomData): Promise<boolean> => {
+  const supabase = getClient();
+  if (!supabase) return false;
+
+  // Nulls clear any old plaintext once a room is encrypted.
+  // Chat lives in room_messages; the legacy array column is always emptied.
+  const { error } = await supabase
+    .from("rooms")
+    .upsert({
+      id: room.id,
+      content: room.content,
+      messages: [],
+      docState: room.docState ?? null,
+      lastEditor: room.lastEditor ?? null,
+      aiSettings: room.aiSettings,
+      suggestions: room.suggestions,
+      access: room.access,
+      encrypted: room.encrypted ?? false,
+      ciphertext: room.ciphertext ?? null,
+      pages: room.pages ?? null,
+      chatSummary: room.chatSummary ?? null,
+    }, { onConflict: "id" });
+
+  if (error) {
+    console.error("[Sync] upsertRoom error:", error.message);
+    return false;
+  }
+  return true;
+};
+
+// ==================== CHAT MESSAGES ====================
+// One row per message, so concurrent sends never overwrite each other.
+// "seq" is a bigserial assigned by Postgres and gives the server-side order.
+
+interface MessageRow {
+  seq?: number;
+  id: string;
+  roomId: string;
+  role: ChatMessage["role"];
+  text: string;
+  timestamp: number;
+  senderId: string | null;
+  senderLabel: string | null;
+  usage: ChatMessage["usage"] | null;
+}
+
+const toMessageRow = (roomId: string, message: ChatMessage): MessageRow => ({
+  id: message.id,
+  roomId,
+  role: message.role,
+  text: message.text,
+  timestamp: message.timestamp,
+  senderId: message.senderId ?? null,
+  senderLabel: message.senderLabel ?? null,
+  usage: message.usage ?? null,
+});
+
+const fromMessageRow = (row: MessageRow): ChatMessage => ({
+  id: row.id,
+  role: row.role,
+  text: row.text,
+  timestamp: row.timestamp,
+  senderId: row.senderId ?? undefined,
+  senderLabel: row.senderLabel ?? undefined,
+  usage: row.usage ?? undefined,
+  seq: row.seq,
+});
+
+// Upsert by (roomId, id): re-sending is harmless, and an edited message replaces its row
+const saveMessages = async (roomId: string, messages: ChatMessage[], keepExisting = false): Promise<boolean> => {
+  const supabase = getClient();
+  if (!supabase || messages.length === 0) return Boolean(supabase);
+
+  const { error } = await supabase
+    .from("room_messages")
+    .upsert(messages.map(m => toMessageRow(roomId, m)), { onConflict: "roomId,id", ignoreDuplicates: keepExisting });
+
+  if (error) {
+    console.error("[Sync] insertMessages error:", error.message);
+    return false;
+  }
+  return true;
+};
+
+const fetchMessages = async (
+  roomId: string,
+  beforeSeq?: number,
+  limit = MESSAGE_PAGE_SIZE
+): Promise<{ messages: ChatMessage[]; hasMore: boolean }> => {
+  const supabase = getClient();
+  if (!supabase) return { messages: [], hasMore: false };
+
+  let query = supabase
+    .from("room_messages")
+    .select("*")
+    .eq("roomId", roomId)
+    .order("seq", { ascending: false })
+    .limit(limit + 1);
+  if (beforeSeq !== undefined) query = query.lt("seq", beforeSeq);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("[Sync] fetchMessages error:", error.message);
+    throw new Error(error.message);
+  }
+
+  const rows = (data || []) as MessageRow[];
+  return {
+    messages: rows.slice(0, limit).reverse().map(fromMessageRow),
+    hasMore: rows.length > limit,
+  };
+};
+
+const deleteMessages = async (roomId: string, ids?: string[]): Promise<boolean> => {
+  const supabase = getClient();
+  if (!supabase) return false;
+
+  let query = supabase
+    .from("room_messages")
+    .delete()
+    .eq("roomId", roomId);
+  if (ids) query = query.in("id", ids);
+
+  const { error } = await query;
+
+  if (error) {
+    console.error("[Sync] deleteMessages error:", error.message);
+    return false;
+  }
+  return true;
+};
+
+// ==================== VERSION HISTORY ====================
+
+const saveVersion = async (version: RoomVersion): Promise<boolean> => {
+  const supabase = getClient();
+  if (!supabase) return false;
+
+  const { error } = await supabase
+    .from("room_versions")
+    .insert(version);
+
+  if (error) {
+    console.error("[Sync] insertRoomVersion error:", error.message);
+    return false;
+  }
+  return true;
+};
+
+const fetchVersions = async (roomId: string, limit: number): Promise<RoomVersion[]> => {
+  const supabase = getClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from("room_versions")
+    .select("*")
+    .eq("roomId", roomId)
+    .order("createdAt", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("[Sync] fetchRoomVersions error:", error.message);
+    return [];
+  }
+  return (data || []) as RoomVersion[];
+};
+
+// ==================== REALTIME ====================
+
+const subscribe = (roomId: string, sessionId: string, events: RoomEvents): RoomSubscription => {
+  const supabase = getClient()!;
+  const channelName = `room:${roomId}`;
+  console.info("[Sync] Subscribing to channel:", channelName);
+
+  const channel = supabase.channel(channelName, {
+    config: {
+      presence: { key: sessionId },
+    },
+  });
+
+  const presence = (): PresenceState[] => Object.values(channel.presenceState()).flat() as unknown as PresenceState[];
+
+  // Listen for database changes - THIS IS THE RELIABLE SYNC
+  channel.on(
+    'postgres_changes',
+    {
+      event: '*',
+      schema: 'public',
+      table: 'rooms',
+      filter: `id=eq.${roomId}`
+    },
+    (payload) => {
+      console.info("[Sync] 📦 Database change:", payload.eventType);
+      if ((payload.eventType === 'UPDATE' || payload.eventType === 'INSERT') && payload.new) {
+        events.onRoom(payload.new as RoomData);
+      }
+    }
+  );
+
+  // Chat messages - one row each, inserted or edited by any client (clearing is broadcast instead)
+  channel.on(
+    'postgres_changes',
+    {
+      event: '*',
+      schema: 'public',
+      table: 'room_messages',
+      filter: `roomId=eq.${roomId}`
+    },
+    (payload) => {
+      if (payload.eventType !== 'INSERT' && payload.eventType !== 'UPDATE') return;
+      events.onMessage(fromMessageRow(payload.new as MessageRow));
+    }
+  );
+
+  // Cursors, CRDT updates, AI streams... (broadcasts don't echo back to the sender)
+  channel.on('broadcast', { event: '*' }, (payload) => events.onBroadcast(payload.event, payload.payload));
+
+  // Presence for showing who's online/typing
+  channel.on('presence', { event: 'sync' }, () => events.onPresence(presence()));
+  channel.on('presence', { event: 'join' }, ({ key }) => {
+    if (key !== sessionId) events.onJoin(key);
+  });
+
+  channel.subscribe((status, err) => {
+    console.info("[Sync] Channel status:", status, err ? `Error: ${err}` : "");
+    if (status === 'SUBSCRIBED') events.onStatus('connected');
+    else if (status === 'CLOSED' || status === 'CHANNEL_ERROR') events.onStatus('disconnected');
+    else events.onStatus('connecting');
+  });
+
+  return {
+    broadcast: (event, payload) => {
+      channel.send({ type: 'broadcast', event, payload });
+    },
+    track: async (state) => {
+      await channel.track(state);
+    },
+    presence,
+    close: () => {
+      supabase.removeChannel(channel);
+    },
+  };
+};
+
+export const supabaseBackend: RoomBackend = {
+  name: "supabase",
+  isLocal: false,
+  fetchRoom,
+  saveRoom,
+  fetchMessages,
+  saveMessages,
+  deleteMessages,
+  saveVersion,
+  fetchVersions,
+  subscribe,
+};
@@ -1,94 +1,176 @@
 /**
  * REAL-TIME SYNC SERVICE
  * 
- * Uses Supabase Realtime postgres_changes for reliable cross-device sync.
- * This is more reliable than broadcast-only approach for remote devices.
+ * Rooms, chat and presence on top of the configured `RoomBackend` (Supabase,
+ * the self-hosted WebSocket relay, or this browser only). Encryption and the
+ * offline outbox live here, so every backend gets them for free.
  */
 
-import { createClient, SupabaseClient, RealtimeChannel } from "@supabase/supabase-js";
-import { RoomData, ChatMessage } from "../types";
-
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-
-let client: SupabaseClient | null = null;
-
-export const hasSupabase = Boolean(supabaseUrl && supabaseKey);
+import { RoomData, ChatMessage, TextCursor } from "../types";
+import { sealRoom, openRoom, sealText, openText, sealMessage, openMessage, isLockedRoom } from "./encryptionService";
+import {
+  enqueueSave,
+  enqueueMessages,
+  enqueueClearMessages,
+  getPendingSaves,
+  countPendingSaves,
+  removePendingSaves,
+  mergeRooms,
+} from "./outboxService";
+import { MAIN_PAGE_ID } from "./pageService";
+import { RoomBackend, RoomSubscription, BackendName, MESSAGE_PAGE_SIZE } from "./roomBackend";
+import { supabaseBackend, hasSupabase } from "./supabaseBackend";
+import { relayBackend } from "./relayBackend";
+import { localBackend } from "./localBackend";
+
+// ==================== BACKENDS ====================
+
+const backends = new Map<BackendName, RoomBackend>();
+
+export const registerBackend = (roomBackend: RoomBackend) => {
+  backends.set(roomBackend.name, roomBackend);
+};
 
-const getClient = (): SupabaseClient | null => {
-  if (!hasSupabase) return null;
-  if (!client) {
-    client = createClient(supabaseUrl!, supabaseKey!, {
-      realtime: {
-        params: {
-          eventsPerSecond: 20,
-        },
-      },
-    });
+registerBackend(localBackend);
+registerBackend(supabaseBackend);
+registerBackend(relayBackend);
+
+// Picked per deployment, e.g. VITE_ROOM_BACKEND=websocket; Supabase when it's configured, else local
+const selectBackend = (): RoomBackend => {
+  const configured = import.meta.env.VITE_ROOM_BACKEND as BackendName | undefined;
+  if (configured === "supabase" && !hasSupabase) {
+    console.warn("[Sync] VITE_ROOM_BACKEND=supabase but Supabase isn't configured - using local storage");
+  } else if (configured && backends.has(configured)) {
+    return backends.get(configured)!;
+  } else if (configured) {
+    console.warn("[Sync] Unknown VITE_ROOM_BACKEND:", configured);
   }
-  return client;
+  return hasSupabase ? supabaseBackend : localBackend;
 };
 
+export const backend = selectBackend();
+
 // ==================== DATABASE OPERATIONS ====================
 
+// null if the room doesn't exist yet; throws if the backend can't be reached
 export const fetchRoom = async (roomId: string): Promise<RoomData | null> => {
-  const supabase = getClient();
-  if (!supabase) return null;
-
-  const { data, error } = await supabase
-    .from("rooms")
-    .select("*")
-    .eq("id", roomId)
-    .maybeSingle();
-
-  if (error) {
-    console.error("[Sync] fetchRoom error:", error.message);
-    return null;
-  }
-  
-  return data as RoomData | null;
+  const data = await backend.fetchRoom(roomId);
+
+  // Decrypts end-to-end encrypted rooms when we hold the key
+  return data ? openRoom(data) : null;
 };
 
 export const upsertRoom = async (room: RoomData): Promise<boolean> => {
-  const supabase = getClient();
-  if (!supabase) return false;
-
-  const { error } = await supabase
-    .from("rooms")
-    .upsert({
-      id: room.id,
-      content: room.content,
-      messages: room.messages,
-    }, { onConflict: "id" });
-
-  if (error) {
-    console.error("[Sync] upsertRoom error:", error.message);
-    return false;
-  }
-  
-  console.info("[Sync] ✅ Saved to database");
+  // Encrypted rooms only ever send ciphertext.
+  // Chat is stored separately; the room's own array is always emptied.
+  const sealed = await sealRoom({ ...room, messages: [] });
+  if (!(await backend.saveRoom(sealed))) return false;
+
+  console.info("[Sync] ✅ Saved to", backend.name);
   return true;
 };
 
+// ==================== CHAT MESSAGES ====================
+// Stored one by one, so concurrent sends never overwrite each other.
+// The backend assigns each message a "seq" that gives the server-side order.
+
+// Insert or replace by id: re-sending is harmless, and an edited message replaces the stored one.
+// `keepExisting` leaves messages that are already stored untouched (used by the migration).
+export const insertMessages = async (
+  roomId: string,
+  messages: ChatMessage[],
+  keepExisting = false
+): Promise<boolean> => {
+  const sealed = await Promise.all(messages.filter(m => !m.isStreaming).map(m => sealMessage(roomId, m)));
+  return backend.saveMessages(roomId, sealed, keepExisting);
+};
+
+// A page of messages in chat order, ending just before `beforeSeq` (newest page if omitted).
+// Throws if the backend can't be reached.
+export const fetchMessages = async (
+  roomId: string,
+  beforeSeq?: number,
+  limit = MESSAGE_PAGE_SIZE
+): Promise<{ messages: ChatMessage[]; hasMore: boolean }> => {
+  const page = await backend.fetchMessages(roomId, beforeSeq, limit);
+  // Messages we can't decrypt are left out
+  const opened = await Promise.all(page.messages.map(m => openMessage(roomId, m)));
+  return {
+    messages: opened.filter((m): m is ChatMessage => m !== null),
+    hasMore: page.hasMore,
+  };
+};
+
+// Deletes the whole chat, or only the messages in `ids`
+export const deleteMessages = (roomId: string, ids?: string[]): Promise<boolean> =>
+  backend.deleteMessages(roomId, ids);
+
+// Rooms written before chat was stored on its own keep it in the room's array - move it over once.
+// Safe to race: messages already migrated by another client are left as they are.
+const migrateLegacyMessages = async (room: RoomData): Promise<void> => {
+  const legacy = room.messages.filter(m => !m.isStreaming);
+  if (legacy.length === 0) return;
+
+  console.info("[Sync] Migrating", legacy.length, "messages to room_messages");
+  if (await insertMessages(room.id, legacy, true)) {
+    await upsertRoom(room);
+  }
+};
+
+// Insert or replace by id, keeping stored messages in server order and unsent ones at the end
+export const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] => {
+  const byId = new Map(current.map(m => [m.id, m]));
+  incoming.forEach(m => byId.set(m.id, m));
+  const order = (m: ChatMessage) => m.seq ?? Number.POSITIVE_INFINITY;
+  return Array.from(byId.values()).sort((a, b) => (order(a) === order(b) ? 0 : order(a) < order(b) ? -1 : 1));
+};
+
 // ==================== SYNC CHANNEL CLASS ====================
 
+// A claim on the shared "AI is responding" lock expires after this long (crashed tab, lost stream)
+export const AI_LOCK_TIMEOUT_MS = 2 * 60 * 1000;
+
+// How long to wait for presence to settle before deciding who won a simultaneous claim
+const AI_LOCK_SETTLE_MS = 400;
+
+// Minimum gap between streamed AI chunks sent to the room
+const AI_STREAM_INTERVAL_MS = 100;
+
 interface SyncCallbacks {
   onRoomUpdate: (room: RoomData, isRemote: boolean) => void;
-  onPresenceUpdate: (users: { id: string; label: string; isTyping: boolean; color: string }[]) => void;
-  onCursorMove: (userId: string, x: number, y: number) => void;
+  onPresenceUpdate: (users: { id: string; sessionId: string; label: string; isTyping: boolean; color: string; aiLockedAt?: number }[]) => void;
+  onCursorMove: (sessionId: string, cursor: TextCursor) => void;
+  onDocUpdate: (update: string, editor: { id: string; label: string }, pageId: string) => void;
+  onMessage: (message: ChatMessage) => void; // inserted or edited by anyone, including us
+  onMessagesCleared: (ids?: string[]) => void; // all messages, or just `ids`
+  onAIStream: (message: ChatMessage, sessionId: string) => void; // partial AI answer requested by someone else
   onConnectionChange: (status: 'connected' | 'disconnected' | 'connecting') => void;
+  onPendingChange: (count: number) => void; // saves waiting in the offline outbox
 }
 
 export class RoomSyncChannel {
-  private channel: RealtimeChannel | null = null;
+  private subscription: RoomSubscription | null = null;
   private roomId: string;
   private clientId: string;
   private clientLabel: string;
   private clientColor: string;
+  // This tab's place in the room: presence, broadcasts and the AI lock are per tab,
+  // so two tabs of the same person see each other like any two collaborators
+  readonly sessionId: string;
   private callbacks: SyncCallbacks;
   private saveTimeout: NodeJS.Timeout | null = null;
   private lastSavedHash: string = '';
   private isSaving: boolean = false;
+  private pendingRoom: RoomData | null = null;
+  private isConnectionLost: boolean = false;
+  private hasSubscribed: boolean = false;
+  private isFlushing: boolean = false;
+  private hasMoreMessages: boolean = false;
+  private isTyping: boolean = false;
+  private aiLockedAt: number | null = null;
+  private streamTimeout: NodeJS.Timeout | null = null;
+  private pendingChunk: ChatMessage | null = null;
+  private lastCursor: TextCursor | null = null;
 
   constructor(
     roomId: string,
@@ -101,138 +183,356 @@ export class RoomSyncChannel {
     this.clientId = clientId;
     this.clientLabel = clientLabel;
     this.clientColor = clientColor;
+    this.sessionId = `${clientId}-${Math.random().toString(36).substring(2, 7)}`;
     this.callbacks = callbacks;
   }
 
+  // Fingerprint of the row fields we write (chat is no longer part of the row)
   private hashRoom(room: RoomData): string {
-    return `${room.content}|${room.messages.length}|${room.messages[room.messages.length - 1]?.id || ''}`;
+    return [
+      room.content,
+      room.docState || '',
+      (room.suggestions || []).map(s => s.id).join(','),
+      JSON.stringify(room.aiSettings || null),
+      JSON.stringify(room.access || null),
+      JSON.stringify((room.pages || []).map(p => [p.id, p.title, p.content])),
+      room.chatSummary?.updatedAt ?? '',
+    ].join('|');
+  }
+
+  // Whether older chat history exists beyond what connect() loaded
+  get hasOlderMessages(): boolean {
+    return this.hasMoreMessages;
   }
 
   async connect(): Promise<RoomData | null> {
-    const supabase = getClient();
-    if (!supabase) {
-      console.warn("[Sync] No Supabase client available");
-      return null;
+    // Fetch initial room data and the latest page of chat
+    // (null when offline - the caller falls back to its cached copy)
+    let room: RoomData | null = null;
+    try {
+      room = await fetchRoom(this.roomId);
+      console.info("[Sync] Initial fetch:", room ? "found" : "not found");
+      if (room && !isLockedRoom(room)) {
+        await migrateLegacyMessages(room);
+        const page = await fetchMessages(this.roomId);
+        room = { ...room, messages: page.messages };
+        this.hasMoreMessages = page.hasMore;
+      }
+    } catch {
+      console.warn("[Sync] Initial fetch failed - offline?");
+      room = null;
     }
 
-    // Fetch initial room data
-    let room = await fetchRoom(this.roomId);
-    console.info("[Sync] Initial fetch:", room ? "found" : "not found");
+    this.subscription = backend.subscribe(this.roomId, this.sessionId, {
+      // The stored room changed - THIS IS THE RELIABLE SYNC
+      onRoom: async (stored) => {
+        const newData = await openRoom(stored);
+        const newHash = this.hashRoom(newData);
 
-    // Create channel for this room
-    const channelName = `room:${this.roomId}`;
-    console.info("[Sync] Subscribing to channel:", channelName);
-    
-    this.channel = supabase.channel(channelName, {
-      config: {
-        presence: { key: this.clientId },
+        // Skip if this is our own save (hash matches what we just saved)
+        if (newHash === this.lastSavedHash && this.isSaving) {
+          console.info("[Sync] Skipping own update");
+          return;
+        }
+
+        console.info("[Sync] ✅ Applying remote update");
+        this.callbacks.onRoomUpdate(newData, true);
       },
-    });
 
-    // Listen for database changes - THIS IS THE RELIABLE SYNC
-    this.channel.on(
-      'postgres_changes',
-      { 
-        event: '*', 
-        schema: 'public', 
-        table: 'rooms',
-        filter: `id=eq.${this.roomId}`
+      // Chat messages - stored one by one, inserted or edited by any client
+      onMessage: async (stored) => {
+        const message = await openMessage(this.roomId, stored);
+        if (message) this.callbacks.onMessage(message);
       },
-      (payload) => {
-        // ... (existing postgres_changes logic) ...
-        console.info("[Sync] 📦 Database change:", payload.eventType);
-        
-        if (payload.eventType === 'UPDATE' || payload.eventType === 'INSERT') {
-          const newData = payload.new as RoomData;
-          
-          if (newData) {
-            const newHash = this.hashRoom(newData);
-            
-            // Skip if this is our own save (hash matches what we just saved)
-            if (newHash === this.lastSavedHash && this.isSaving) {
-              console.info("[Sync] Skipping own update");
-              return;
-            }
-            
-            console.info("[Sync] ✅ Applying remote update");
-            this.callbacks.onRoomUpdate(newData, true);
-          }
-        }
-      }
-    );
-
-    // Broadcast for high-frequency cursor updates
-    this.channel.on(
-      'broadcast',
-      { event: 'cursor-pos' },
-      (payload) => {
-        if (payload.payload.id !== this.clientId) {
-          this.callbacks.onCursorMove(payload.payload.id, payload.payload.x, payload.payload.y);
+
+      onBroadcast: (event, payload) => this.handleBroadcast(event, payload),
+
+      // Presence for showing who's online/typing
+      onPresence: (clients) => {
+        const users = clients.map(p => ({
+          id: p.clientId,
+          sessionId: p.sessionId ?? p.clientId, // clients from before sessions have one per person
+          label: p.clientLabel,
+          isTyping: p.isTyping || false,
+          color: p.color || '#000000',
+          aiLockedAt: p.aiLockedAt ?? undefined,
+        }));
+        this.callbacks.onPresenceUpdate(users);
+      },
+
+      // Someone joined - show them where we are without waiting for our next move
+      onJoin: () => {
+        if (this.lastCursor) this.sendCursor(this.lastCursor);
+      },
+
+      onStatus: (status) => {
+        if (status === 'connected') {
+          console.info("[Sync] ✅ Connected and listening for changes");
+          this.callbacks.onConnectionChange('connected');
+
+          // After a reconnect, catch up on what we missed even with nothing queued
+          const isReconnect = this.hasSubscribed;
+          this.hasSubscribed = true;
+          this.isConnectionLost = false;
+          this.flushOutbox(isReconnect);
+
+          // Track our presence
+          this.trackPresence();
+        } else if (status === 'disconnected') {
+          console.warn("[Sync] ❌ Disconnected");
+          this.isConnectionLost = true;
+          this.callbacks.onConnectionChange('disconnected');
+        } else {
+          this.callbacks.onConnectionChange('connecting');
         }
-      }
-    );
-
-    // Presence for showing who's online/typing
-    this.channel.on('presence', { event: 'sync' }, () => {
-      const state = this.channel?.presenceState() || {};
-      const users = Object.values(state).flat().map((p: any) => ({
-        id: p.clientId,
-        label: p.clientLabel,
-        isTyping: p.isTyping || false,
-        color: p.color || '#000000',
-      }));
-      this.callbacks.onPresenceUpdate(users);
+      },
     });
 
-    // Subscribe and track status
-    this.channel.subscribe((status, err) => {
-      console.info("[Sync] Channel status:", status, err ? `Error: ${err}` : "");
-      
-      if (status === 'SUBSCRIBED') {
-        console.info("[Sync] ✅ Connected and listening for changes");
-        this.callbacks.onConnectionChange('connected');
-        
-        // Track our presence
-        this.channel?.track({
-          clientId: this.clientId,
-          clientLabel: this.clientLabel,
-          isTyping: false,
-          color: this.clientColor,
-          joinedAt: Date.now(),
-        });
-      } else if (status === 'CLOSED' || status === 'CHANNEL_ERROR') {
-        console.warn("[Sync] ❌ Disconnected");
-        this.callbacks.onConnectionChange('disconnected');
-      } else {
-        this.callbacks.onConnectionChange('connecting');
-      }
-    });
+    // Local rooms never go offline
+    if (!backend.isLocal) {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    }
+    this.reportPending();
 
     return room;
   }
 
-  // Update presence (typing indicator)
-  updatePresence(isTyping: boolean) {
-    this.channel?.track({
+  // Ephemeral events from other tabs (never our own)
+  private async handleBroadcast(event: string, payload: any) {
+    const sender: string | undefined = payload?.session ?? payload?.id;
+    if (!sender || sender === this.sessionId) return;
+
+    switch (event) {
+      // Chat cleared by someone (deletes aren't pushed like inserts, so it's announced)
+      case 'chat-cleared':
+        this.callbacks.onMessagesCleared(payload.ids);
+        break;
+
+      // High-frequency caret / selection updates
+      case 'cursor-pos':
+        // Older clients send mouse coordinates instead of a text position
+        if (payload.cursor && typeof payload.cursor.from === 'number') {
+          this.callbacks.onCursorMove(sender, payload.cursor);
+        }
+        break;
+
+      // CRDT document updates (merged by every client, order-independent)
+      case 'doc-update':
+        try {
+          const update = await openText(this.roomId, payload.update);
+          this.callbacks.onDocUpdate(update, payload.editor || {
+            id: payload.id,
+            label: payload.label,
+          }, payload.pageId || MAIN_PAGE_ID); // clients without pages only edit the main page
+        } catch {
+          console.warn("[Sync] Dropped a doc update we can't decrypt");
+        }
+        break;
+
+      // Partial AI answers, so everyone watches the reply being written
+      case 'ai-stream':
+        try {
+          const message: ChatMessage = payload.message;
+          const text = await openText(this.roomId, message.text);
+          this.callbacks.onAIStream({ ...message, text }, sender);
+        } catch {
+          console.warn("[Sync] Dropped an AI chunk we can't decrypt");
+        }
+        break;
+    }
+  }
+
+  // ==================== OFFLINE OUTBOX ====================
+
+  private handleOnline = () => {
+    console.info("[Sync] 🌐 Back online");
+    if (this.hasSubscribed && !this.isConnectionLost) this.flushOutbox();
+  };
+
+  private handleOffline = () => {
+    console.warn("[Sync] 📴 Offline - queueing saves");
+    this.isConnectionLost = true;
+    this.callbacks.onConnectionChange('disconnected');
+  };
+
+  private async reportPending() {
+    this.callbacks.onPendingChange(await countPendingSaves(this.roomId));
+  }
+
+  private get isOffline(): boolean {
+    return !backend.isLocal && (this.isConnectionLost || !navigator.onLine);
+  }
+
+  private async queueSave(room: RoomData) {
+    await enqueueSave(room);
+    this.reportPending();
+  }
+
+  // Replay the queue in order against the server copy, then hand the result to the UI.
+  // `resync` also pulls the server copy when nothing is queued (after a reconnect).
+  async flushOutbox(resync = false) {
+    if (this.isFlushing) return;
+    this.isFlushing = true;
+    try {
+      const entries = await getPendingSaves(this.roomId);
+      if (entries.length === 0 && !resync) return;
+
+      console.info("[Sync] 📤 Replaying", entries.length, "queued changes");
+      let room = await fetchRoom(this.roomId);
+      const roomEntryIds: string[] = [];
+
+      for (const entry of entries) {
+        if (entry.kind === 'room' && entry.room) {
+          const local = await openRoom(entry.room);
+          if (isLockedRoom(local)) continue;
+          room = mergeRooms(room, local);
+          roomEntryIds.push(entry.id);
+          continue;
+        }
+
+        // Chat writes are applied one by one so a clear only removes what came before it
+        if (entry.kind === 'messages') {
+          const opened = await Promise.all((entry.messages || []).map(m => openMessage(this.roomId, m)));
+          const messages = opened.filter((m): m is ChatMessage => m !== null);
+          if (!(await insertMessages(this.roomId, messages))) return;
+        } else if (entry.kind === 'clear-messages') {
+          if (!(await deleteMessages(this.roomId, entry.messageIds))) return;
+          this.broadcastChatCleared(entry.messageIds);
+          this.callbacks.onMessagesCleared(entry.messageIds);
+        }
+        await removePendingSaves([entry.id]);
+      }
+
+      if (room && roomEntryIds.length > 0) {
+        if (!(await this.writeRoom(room))) return;
+        await removePendingSaves(roomEntryIds);
+      }
+      if (room) this.callbacks.onRoomUpdate(room, true);
+
+      // Catch up on chat sent while we were away
+      const page = await fetchMessages(this.roomId);
+      page.messages.forEach(message => this.callbacks.onMessage(message));
+    } catch (e) {
+      console.warn("[Sync] Outbox replay failed, will retry on reconnect", e);
+    } finally {
+      this.isFlushing = false;
+      this.reportPending();
+    }
+  }
+
+  private trackPresence() {
+    return this.subscription?.track({
+      sessionId: this.sessionId,
       clientId: this.clientId,
       clientLabel: this.clientLabel,
-      isTyping,
+      isTyping: this.isTyping,
       color: this.clientColor,
+      aiLockedAt: this.aiLockedAt,
       joinedAt: Date.now(),
     });
   }
 
-  // Send cursor position via Broadcast (faster, ephemeral)
-  sendCursor(x: number, y: number) {
-    this.channel?.send({
-      type: 'broadcast',
-      event: 'cursor-pos',
-      payload: { id: this.clientId, x, y }
+  // Update presence (typing indicator)
+  updatePresence(isTyping: boolean) {
+    this.isTyping = isTyping;
+    this.trackPresence();
+  }
+
+  // Our name or color changed - others pick it up from presence
+  setIdentity(label: string, color: string) {
+    this.clientLabel = label;
+    this.clientColor = color;
+    this.trackPresence();
+  }
+
+  // ==================== AI LOCK ====================
+  // Held through presence, so it disappears with the client that holds it
+
+  // Current holder of the lock (earliest live claim wins), or null
+  private getAILockHolder(): string | null {
+    const now = Date.now();
+    const claims = (this.subscription?.presence() || [])
+      .map(p => ({ id: p.sessionId ?? p.clientId, at: p.aiLockedAt }))
+      .filter((c): c is { id: string; at: number } => typeof c.at === 'number' && now - c.at < AI_LOCK_TIMEOUT_MS)
+      .sort((a, b) => a.at - b.at || a.id.localeCompare(b.id));
+    return claims[0]?.id ?? null;
+  }
+
+  // Resolves true if we got the lock; false if someone else's answer is (or started) streaming
+  async claimAILock(): Promise<boolean> {
+    if (!this.subscription || this.isOffline) return true;
+
+    const holder = this.getAILockHolder();
+    if (holder && holder !== this.sessionId) return false;
+
+    this.aiLockedAt = Date.now();
+    await this.trackPresence();
+    await new Promise(resolve => setTimeout(resolve, AI_LOCK_SETTLE_MS));
+
+    // Two clients may have claimed at once - the earliest claim wins
+    if (this.getAILockHolder() !== this.sessionId) {
+      this.releaseAILock();
+      return false;
+    }
+    return true;
+  }
+
+  releaseAILock() {
+    if (this.aiLockedAt === null) return;
+    this.aiLockedAt = null;
+    this.trackPresence();
+  }
+
+  // Share the partial answer (throttled; each chunk carries the full text so far).
+  // `done` sends the finished message right away.
+  async streamAIMessage(message: ChatMessage, done = false) {
+    this.pendingChunk = message;
+    if (done) {
+      if (this.streamTimeout) clearTimeout(this.streamTimeout);
+      this.streamTimeout = null;
+      await this.sendPendingChunk();
+      return;
+    }
+    if (this.streamTimeout) return;
+    this.streamTimeout = setTimeout(() => {
+      this.streamTimeout = null;
+      this.sendPendingChunk();
+    }, AI_STREAM_INTERVAL_MS);
+  }
+
+  private async sendPendingChunk() {
+    const message = this.pendingChunk;
+    if (!message) return;
+    this.pendingChunk = null;
+    this.subscription?.broadcast('ai-stream', {
+      id: this.clientId,
+      session: this.sessionId,
+      message: { ...message, text: await sealText(this.roomId, message.text) },
+    });
+  }
+
+  // Send our caret / selection via Broadcast (faster, ephemeral)
+  sendCursor(cursor: TextCursor) {
+    this.lastCursor = cursor;
+    this.subscription?.broadcast('cursor-pos', { id: this.clientId, session: this.sessionId, cursor });
+  }
+
+  // Send an incremental CRDT update for one page via Broadcast (the merged state is persisted by saveRoom).
+  // `editor` attributes the edit to someone else, e.g. the AI for an accepted suggestion.
+  async broadcastDocUpdate(update: string, editor?: { id: string; label: string }, pageId: string = MAIN_PAGE_ID) {
+    this.subscription?.broadcast('doc-update', {
+      id: this.clientId,
+      session: this.sessionId,
+      label: this.clientLabel,
+      update: await sealText(this.roomId, update),
+      editor,
+      pageId,
     });
   }
 
-  // Save to database - this triggers postgres_changes for other clients
-  async saveRoom(room: RoomData): Promise<boolean> {
+  // Upsert and remember the hash so the echo of our own save is skipped
+  private async writeRoom(room: RoomData): Promise<boolean> {
     this.isSaving = true;
     this.lastSavedHash = this.hashRoom(room);
     
@@ -246,13 +546,67 @@ export class RoomSyncChannel {
     return success;
   }
 
+  // Save to the backend - this pushes the room to other clients.
+  // Offline or failed saves go to the outbox and are replayed on reconnect.
+  async saveRoom(room: RoomData): Promise<boolean> {
+    if (this.isOffline) {
+      await this.queueSave(room);
+      return false;
+    }
+
+    const success = await this.writeRoom(room);
+    if (!success) await this.queueSave(room);
+    return success;
+  }
+
+  // ==================== CHAT ====================
+
+  // Append messages (or replace edited ones); queued while offline
+  async sendMessages(messages: ChatMessage[]): Promise<boolean> {
+    if (!this.isOffline && (await insertMessages(this.roomId, messages))) return true;
+    await enqueueMessages(this.roomId, messages);
+    this.reportPending();
+    return false;
+  }
+
+  // Clears the chat, or removes just the messages in `ids`
+  async clearMessages(ids?: string[]): Promise<boolean> {
+    if (!this.isOffline && (await deleteMessages(this.roomId, ids))) {
+      this.broadcastChatCleared(ids);
+      return true;
+    }
+    await enqueueClearMessages(this.roomId, ids);
+    this.reportPending();
+    return false;
+  }
+
+  // Swap the whole chat for another one (restoring a version)
+  async replaceMessages(messages: ChatMessage[]): Promise<boolean> {
+    const cleared = await this.clearMessages();
+    const sent = await this.sendMessages(messages);
+    return cleared && sent;
+  }
+
+  async loadOlderMessages(beforeSeq: number): Promise<ChatMessage[]> {
+    const page = await fetchMessages(this.roomId, beforeSeq);
+    this.hasMoreMessages = page.hasMore;
+    return page.messages;
+  }
+
+  private broadcastChatCleared(ids?: string[]) {
+    this.subscription?.broadcast('chat-cleared', { id: this.clientId, session: this.sessionId, ids });
+  }
+
   // Debounced save (for typing - saves after 300ms of inactivity)
   scheduleSave(room: RoomData) {
     if (this.saveTimeout) {
       clearTimeout(this.saveTimeout);
     }
 
+    this.pendingRoom = room;
     this.saveTimeout = setTimeout(() => {
+      this.saveTimeout = null;
+      this.pendingRoom = null;
       this.saveRoom(room);
     }, 300);
   }
@@ -262,21 +616,29 @@ export class RoomSyncChannel {
     if (this.saveTimeout) {
       clearTimeout(this.saveTimeout);
       this.saveTimeout = null;
+      this.pendingRoom = null;
     }
     return await this.saveRoom(room);
   }
 
   disconnect() {
+    if (this.streamTimeout) {
+      clearTimeout(this.streamTimeout);
+      this.streamTimeout = null;
+    }
     if (this.saveTimeout) {
       clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
     }
-    if (this.channel) {
-      const supabase = getClient();
-      if (supabase) {
-        supabase.removeChannel(this.channel);
-      }
-      this.channel = null;
+    // Don't lose a debounced save when leaving the room - replay it next time
+    if (this.pendingRoom) {
+      enqueueSave(this.pendingRoom);
+      this.pendingRoom = null;
     }
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    this.subscription?.close();
+    this.subscription = null;
   }
 }
 
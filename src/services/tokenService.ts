@@ -0,0 +1,63 @@
+/**
+ * TOKEN BUDGET
+ *
+ * A prompt has to fit the model's context window with room left for the
+ * answer. Before asking, the window is split: the instructions, the question
+ * and the reserved answer come first, then the recent history (newest first),
+ * and whatever is left goes to the notes, the conversation summary and older
+ * messages - retrieval fills it and reports what didn't fit. Tokens are
+ * estimated from characters, close enough for budgeting without shipping a
+ * tokenizer for every model; providers report exact counts afterwards where
+ * they can.
+ */
+
+import { ChatMessage, MessageRole } from "../types";
+import { SYSTEM_INSTRUCTION, HISTORY_LIMIT, wrapWithContext } from "./promptService";
+
+// About right for English prose and code with the common BPE tokenizers
+export const CHARS_PER_TOKEN = 4;
+
+// Role markers and separators around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Recent history may take at most this share of what the fixed parts leave
+const HISTORY_SHARE = 0.3;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export interface PromptBudget {
+  window: number;
+  history: ChatMessage[]; // the recent messages that fit, oldest first
+  fixedTokens: number; // instructions, question and those messages
+  contextTokens: number; // left for the notes, the summary and older messages
+}
+
+// How a prompt for `prompt` splits the window; null when even the question and the
+// reserved answer don't fit
+export const planPrompt = (window: number, maxOutput: number, history: ChatMessage[], prompt: string): PromptBudget | null => {
+  const fixed = estimateTokens(SYSTEM_INSTRUCTION) + estimateTokens(wrapWithContext("", prompt)) + 2 * MESSAGE_OVERHEAD_TOKENS;
+  const available = window - maxOutput - fixed;
+  if (available <= 0) return null;
+
+  // Newest first, stopping at the first message that no longer fits
+  const recent = history.filter(m => !m.isStreaming && m.role !== MessageRole.CHAT).slice(-HISTORY_LIMIT);
+  let historyTokens = 0;
+  let first = recent.length;
+  while (first > 0) {
+    const cost = estimateTokens(recent[first - 1].text) + MESSAGE_OVERHEAD_TOKENS;
+    if (historyTokens + cost > available * HISTORY_SHARE) break;
+    historyTokens += cost;
+    first--;
+  }
+
+  return {
+    window,
+    history: recent.slice(first),
+    fixedTokens: fixed + historyTokens,
+    contextTokens: available - historyTokens,
+  };
+};
+
+// "12.3k" for the chat
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10000 ? 0 : 1)}k` : String(tokens);
@@ -1,7 +1,8 @@
 export enum MessageRole {
   USER = 'user',
   MODEL = 'model',
-  SYSTEM = 'system'
+  SYSTEM = 'system',
+  CHAT = 'chat' // collaborator-to-collaborator message; the AI neither answers nor reads it
 }
 
 export interface ChatMessage {
@@ -12,6 +13,43 @@ export interface ChatMessage {
   isStreaming?: boolean;
   senderId?: string;
   senderLabel?: string;
+  seq?: number; // server-side order, set once stored in room_messages
+  usage?: TokenUsage; // AI answers: what the prompt and the answer cost
+}
+
+export interface TokenUsage {
+  input: number; // prompt tokens: instructions, notes, history and question
+  output: number;
+  window: number; // the model's context window at the time
+  estimated?: boolean; // counted from characters because the provider didn't report it
+  truncated?: { sent: number; total: number }; // passages of the notes that fit, when not all did
+}
+
+// Older AI conversation folded into a running summary (see summaryService)
+export interface ChatSummary {
+  text: string;
+  through: number; // timestamp of the newest message it covers
+  updatedAt: number;
+}
+
+// Who this client is to everyone else (see identityService)
+export interface ClientIdentity {
+  id: string; // account id when signed in, otherwise the browser's own id
+  label: string; // display name
+  color: string; // cursor / presence color
+  deviceId: string; // this browser's id, also while signed in
+  email?: string; // set while signed in
+}
+
+// Someone's caret / selection in the notes, shared over the `cursor-pos` broadcast.
+// The anchors (see RoomDocument.createAnchor) keep it on the same characters through
+// concurrent edits; the offsets are used until the receiver has seen that text.
+export interface TextCursor {
+  pageId: string;
+  from: number;
+  to: number; // equal to `from` for a plain caret
+  fromAnchor?: string;
+  toAnchor?: string;
 }
 
 export interface RoomData {
@@ -20,6 +58,87 @@ export interface RoomData {
   messages: ChatMessage[];
   updatedAt: number;
   lastEditor?: { id: string; label: string };
+  docState?: string; // base64 Yjs state of `content`, merged by every client
+  aiSettings?: AISettings; // per-room AI provider choice, falls back to defaults
+  suggestions?: EditSuggestion[]; // pending AI edits awaiting accept/reject
+  access?: RoomAccess; // optional password / read-only protection
+  encrypted?: boolean; // content fields are end-to-end encrypted into `ciphertext`
+  ciphertext?: string; // only set on the wire / in storage, never while decrypted
+  pages?: RoomPage[]; // named documents in sidebar order - see pageService
+  chatSummary?: ChatSummary; // gist of the chat that no longer fits in prompts
+}
+
+// A named document in a room. The main page's text lives in the room's own fields.
+export interface RoomPage {
+  id: string; // slug used in the route, e.g. #/room/retro
+  title: string;
+  content: string;
+  docState?: string; // base64 Yjs state of this page
+  lastEditor?: { id: string; label: string };
+}
+
+// Who may open and edit a room. Only hashes of secrets are stored.
+export interface RoomAccess {
+  mode: 'open' | 'password' | 'view-only'; // view-only: anyone can read, password to edit
+  secretHash?: string;    // SHA-256 verifier of the PBKDF2 password key (see accessService)
+  viewTokenHash?: string; // hash of the token in the read-only share link
+  ownerId?: string;       // client that created the room and may change access
+}
+
+// An AI-proposed change to the notes, anchored with CRDT relative positions
+export interface EditSuggestion {
+  id: string;
+  messageId: string; // AI message that proposed it
+  pageId?: string; // page the anchors point into (the main page when missing)
+  kind: 'insert' | 'replace' | 'delete';
+  start: string; // encoded Yjs relative position
+  end: string;
+  originalText: string;
+  text: string;
+  createdAt: number;
+}
+
+// Point-in-time snapshot of a room, kept in the history store
+export interface RoomVersion {
+  id: string;
+  roomId: string;
+  content: string;
+  messages: ChatMessage[];
+  lastEditor?: { id: string; label: string };
+  pages?: RoomPage[]; // titles and text of every page, for rooms with more than one
+  createdAt: number;
+  reason?: string; // e.g. "Auto-save", "Before clearing chat"
+  ciphertext?: string; // encrypted content/messages for end-to-end encrypted rooms
+}
+
+// Which AI provider/model a room talks to
+export interface AISettings {
+  providerId: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  baseUrl?: string; // only used by the self-hosted provider (see allowBaseUrlOverride)
+  contextWindow?: number; // tokens the model can take in; defaults to what the provider knows about the model
+}
+
+// Streams a reply to `userPrompt`, calling onChunk with the full text so far
+export interface AIProvider {
+  id: string;
+  label: string;
+  defaultModel: string;
+  suggestedModels: string[];
+  isConfigured: () => boolean;
+  contextWindow: (model: string) => number; // in tokens
+  streamResponse: (
+    history: ChatMessage[],
+    currentContext: string,
+    userPrompt: string,
+    onChunk: (text: string) => void,
+    settings: AISettings,
+    signal?: AbortSignal, // aborting resolves with the partial text streamed so far
+    onUsage?: (usage: { input: number; output: number }) => void // token counts, when the API reports them
+  ) => Promise<string>;
 }
 
-export type ViewMode = 'editor' | 'chat' | 'split';
+// How the notes pane shows a page: the text, the rendered markdown, or both side by side
+export type ViewMode = 'editor' | 'preview' | 'split';